@@ -0,0 +1,194 @@
+/**
+ * Replays paths the chunk solver accepts through the real simulation, to
+ * catch the solver and the player physics drifting apart. Run it with
+ * `npx tsx scripts/check-solver.ts`; it exits non-zero if any replay is hit.
+ *
+ * Each case queues a random chain of chunks at a fixed level, picks one path
+ * the solver says gets through, and plays it with every jump and slide as
+ * late as the solver assumes and every lane change as soon as it allows.
+ */
+import { CHUNKS, EMPTY_ROW, advancePaths, cellObstacle, resolveChunk, solveRows } from '../src/lib/game/chunks';
+import { FRAME_TIME, SCORE_PER_LEVEL } from '../src/lib/game/constants';
+import { getDifficulty } from '../src/lib/game/difficulty';
+import { OBSTACLE_RULES } from '../src/lib/game/obstacles';
+import { createRandom, type Random } from '../src/lib/game/random';
+import {
+  MOVE_TIMING,
+  createInitialState,
+  getPlayerFootprint,
+  getRowTiming,
+  step
+} from '../src/lib/game/simulation';
+import type { PathState, PlayerAction, SimulationState } from '../src/lib/game/types';
+
+const LEVELS = [1, 5, 10, 20, 30, 40];
+const CASES_PER_LEVEL = 40;
+const MIN_ROWS = 24;
+
+type Move = { lane: PathState['lane']; jump: boolean; slide: boolean };
+
+const shuffle = <T>(items: T[], random: Random) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = random.int(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Chains chunks the way the simulation queues them, keeping only those the solver accepts
+const buildRows = (level: number, random: Random) => {
+  const difficulty = getDifficulty(level);
+  const rowTiming = getRowTiming(difficulty);
+  const rows: string[] = [];
+  let paths = createInitialState(0).paths;
+  while (rows.length < MIN_ROWS) {
+    const candidates = shuffle(CHUNKS.filter(chunk => chunk.minLevel <= level), random);
+    const next = candidates
+      .map(chunk => resolveChunk(chunk, random, difficulty.obstacleWeights))
+      .find(chunkRows => solveRows(paths, chunkRows, rowTiming, MOVE_TIMING).length) ?? [EMPTY_ROW];
+    paths = solveRows(paths, next, rowTiming, MOVE_TIMING);
+    rows.push(...next);
+  }
+  return rows;
+};
+
+// Which move each solver state stands for, read back from the values it was given
+const moveFor = (row: string, next: PathState, overlap: number): Move => {
+  const type = cellObstacle(row[next.lane]);
+  const avoid = type ? OBSTACLE_RULES[type].avoid : null;
+  return {
+    lane: next.lane,
+    jump:
+      avoid === 'jump' &&
+      next.clearFor === MOVE_TIMING.jumpClearSteps - overlap &&
+      next.readyIn === MOVE_TIMING.jumpCooldownSteps - overlap - MOVE_TIMING.jumpRiseSteps,
+    slide:
+      avoid === 'slide' &&
+      next.slideFor === MOVE_TIMING.slideSteps - overlap &&
+      next.slideReadyIn === MOVE_TIMING.slideCooldownSteps - overlap
+  };
+};
+
+// One sequence of solver states through every row, tried in a random order
+const findMoves = (level: number, rows: string[], random: Random) => {
+  const rowTiming = getRowTiming(getDifficulty(level));
+  const deadEnds = new Set<string>();
+
+  const search = (path: PathState, index: number): Move[] | null => {
+    if (index === rows.length) return [];
+    const key = `${index}:${path.lane}:${path.clearFor}:${path.readyIn}:${path.slideFor}:${path.slideReadyIn}`;
+    if (deadEnds.has(key)) return null;
+
+    const row = rows[index];
+    for (const next of shuffle(advancePaths([path], row, rowTiming, MOVE_TIMING), random)) {
+      const rest = search(next, index + 1);
+      if (rest) {
+        const type = cellObstacle(row[next.lane]);
+        return [moveFor(row, next, type ? rowTiming.overlapSteps[type] : 0), ...rest];
+      }
+    }
+    deadEnds.add(key);
+    return null;
+  };
+
+  return search(createInitialState(0).paths[0], 0);
+};
+
+// Keeps the level fixed and takes away anything that would soften a hit
+const hold = (state: SimulationState, level: number): SimulationState => ({
+  ...state,
+  scoreDistance: (level - 1) * SCORE_PER_LEVEL * 10,
+  powerUps: [],
+  player: { ...state.player, health: Number.MAX_SAFE_INTEGER, isInvulnerable: false }
+});
+
+const start = (seed: number, rows: string[]): SimulationState => ({
+  ...createInitialState(seed),
+  pendingRows: rows
+});
+
+// Frames at which each row spawns; spawning only depends on the distance travelled
+const spawnFrames = (seed: number, level: number, rows: string[]) => {
+  const frames: number[] = [];
+  let state = start(seed, rows);
+  while (frames.length < rows.length) {
+    const next = step(hold(state, level), { actions: [] }, FRAME_TIME);
+    if (next.spawnAt.obstacle !== state.spawnAt.obstacle) frames.push(next.frame);
+    state = next;
+  }
+  return frames;
+};
+
+// Obstacles move the same distance every step, so their positions can be replayed ahead
+const rowWindow = (spawnFrame: number, speed: number, height: number) => {
+  const footprint = getPlayerFootprint(createInitialState(0).player);
+  let y = 50;
+  let frame = spawnFrame;
+  let enter = -1;
+  while (y < footprint.y + footprint.height) {
+    if (enter < 0 && y + height > footprint.y) enter = frame;
+    frame++;
+    y += speed;
+  }
+  return { enter, leave: frame };
+};
+
+const replay = (seed: number, level: number, rows: string[], moves: Move[]) => {
+  const speed = getDifficulty(level).speed;
+  const spawns = spawnFrames(seed, level, rows);
+  const schedule = new Map<number, PlayerAction[]>();
+  const press = (frame: number, ...actions: PlayerAction[]) => {
+    schedule.set(frame, [...(schedule.get(frame) ?? []), ...actions]);
+  };
+
+  let lane = createInitialState(0).player.lane;
+  let passed = 1;
+  moves.forEach((move, index) => {
+    const shift = move.lane - lane;
+    press(passed, ...Array<PlayerAction>(Math.abs(shift)).fill(shift < 0 ? 'moveLeft' : 'moveRight'));
+    lane = move.lane;
+
+    const type = cellObstacle(rows[index][move.lane]);
+    const { enter, leave } = rowWindow(spawns[index], speed, type ? OBSTACLE_RULES[type].height : 0);
+    if (move.jump) press(enter - MOVE_TIMING.jumpRiseSteps + 1, 'jump');
+    if (move.slide) press(enter, 'slide');
+    passed = leave;
+  });
+
+  const hits: string[] = [];
+  let state = start(seed, rows);
+  // The rows queued after the chain can reach the player as its last row leaves
+  while (state.frame < passed - 1) {
+    state = step(hold(state, level), { actions: schedule.get(state.frame + 1) ?? [] }, FRAME_TIME);
+    for (const event of state.events) {
+      if (event.type === 'obstacleHit') hits.push(`${event.obstacle} on frame ${state.frame}`);
+    }
+  }
+  return hits;
+};
+
+let failures = 0;
+for (const level of LEVELS) {
+  const random = createRandom(level);
+  for (let i = 0; i < CASES_PER_LEVEL; i++) {
+    const seed = random.int(2 ** 31);
+    const rows = buildRows(level, random);
+    const moves = findMoves(level, rows, random);
+    if (!moves) throw new Error(`Level ${level}: the solver accepted rows it has no path through`);
+
+    const hits = replay(seed, level, rows, moves);
+    if (hits.length) {
+      failures++;
+      console.error(`Level ${level}, seed ${seed}: hit ${hits.join(', ')}`);
+      console.error(`  rows  ${rows.join(' ')}`);
+      console.error(`  moves ${moves.map(move => `${move.lane}${move.jump ? 'J' : ''}${move.slide ? 'S' : ''}`).join(' ')}`);
+    }
+  }
+  console.log(`Level ${level}: replayed ${CASES_PER_LEVEL} chains`);
+}
+
+if (failures) {
+  console.error(`${failures} replays hit an obstacle`);
+  process.exit(1);
+}
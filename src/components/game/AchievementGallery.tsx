@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ACHIEVEMENTS, achievementFraction, type Achievement, type AchievementProgress } from '@/lib/game/achievements';
+
+interface AchievementGalleryProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+const formatAmount = (achievement: Achievement, value: number) =>
+  `${Math.floor(Math.min(value, achievement.goal))} / ${achievement.goal}${achievement.unit ?? ''}`;
+
+export const AchievementGallery = ({ progress, onClose }: AchievementGalleryProps) => {
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => progress[achievement.id]?.unlockedAt).length;
+
+  return (
+    <div className="game-menu">
+      <h2 className="text-4xl font-bold mb-2">Achievements</h2>
+      <p className="text-lg text-muted-foreground mb-6">
+        {unlockedCount} of {ACHIEVEMENTS.length} unlocked
+      </p>
+      <div className="grid w-full max-w-4xl grid-cols-1 gap-4 mb-6 sm:grid-cols-2 max-h-[60vh] overflow-y-auto">
+        {ACHIEVEMENTS.map(achievement => {
+          const record = progress[achievement.id];
+          const unlockedAt = record?.unlockedAt;
+
+          return (
+            <div
+              key={achievement.id}
+              className={`rounded-lg bg-black/60 p-4 text-left ${unlockedAt ? 'border border-primary' : 'opacity-80'}`}
+            >
+              <div className="flex items-baseline justify-between gap-2 mb-1">
+                <div className="text-lg font-bold">
+                  {unlockedAt ? '🏆 ' : '🔒 '}
+                  {achievement.title}
+                </div>
+                {unlockedAt && (
+                  <div className="text-xs text-muted-foreground">{new Date(unlockedAt).toLocaleDateString()}</div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground mb-3">{achievement.description}</div>
+              <Progress value={achievementFraction(progress, achievement) * 100} className="h-2 mb-1" />
+              <div className="text-xs text-muted-foreground text-right">
+                {formatAmount(achievement, record?.value ?? 0)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <Button onClick={onClose} className="game-button">
+        Back
+      </Button>
+    </div>
+  );
+};
@@ -1,892 +1,388 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAudio } from '@/hooks/use-audio';
+import { useGamepads } from '@/hooks/use-gamepads';
+import { useLeaderboard } from '@/hooks/use-leaderboard';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useProfile } from '@/hooks/use-profile';
+import { useSpriteAtlas } from '@/hooks/use-sprite-atlas';
+import { useSwipeControls } from '@/hooks/use-swipe-controls';
+import { useToast } from '@/hooks/use-toast';
+import { useViewport } from '@/hooks/use-viewport';
+import { AchievementGallery } from './AchievementGallery';
+import { KeyBindingsDialog } from './KeyBindingsDialog';
+import { Leaderboard } from './Leaderboard';
+import { ReplayControls } from './ReplayControls';
+import { SettingsDialog } from './SettingsDialog';
+import { TouchControls } from './TouchControls';
+import { applyAchievementEvent, createRunStats } from '@/lib/game/achievements';
+import { cueForEvent } from '@/lib/game/audio/cues';
+import { FRAME_TIME } from '@/lib/game/constants';
+import { createEventBus } from '@/lib/game/events';
+import { gamepadButtonName } from '@/lib/game/gamepad';
+import { actionForKey, keyLabel, type InputAction } from '@/lib/game/input';
+import { qualifiesForLeaderboard, type LeaderboardEntry } from '@/lib/game/leaderboard';
+import { advanceClock, createClock, interpolateState, interpolationAlpha } from '@/lib/game/loop';
+import { dailySeed, formatSeed, parseSeed, randomSeed } from '@/lib/game/random';
+import {
+  createReplay,
+  parseReplay,
+  recordEvent,
+  serializeReplay,
+  simulateReplay,
+  stepReplay,
+  type Replay
+} from '@/lib/game/replay';
+import { createCamera } from '@/lib/game/render/camera';
+import { createFrameTimeMonitor, lowerQuality, QUALITY_LABELS, recordFrameTime } from '@/lib/game/render/quality';
+import { drawLogo } from '@/lib/game/render/logo';
+import { BACKEND_LABELS, createRenderer, type Renderer } from '@/lib/game/render/renderer';
+import { createInitialState, step } from '@/lib/game/simulation';
+import type { PlayerAction, SimulationState } from '@/lib/game/types';
+
+type GameState = 'start' | 'playing' | 'paused' | 'gameOver' | 'replay' | 'leaderboard' | 'achievements';
+
+const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `lane-leaper-${formatSeed(replay.seed)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
-type GameState = 'start' | 'playing' | 'paused' | 'gameOver';
-type Lane = 0 | 1 | 2; // left, center, right
-
-interface Player {
-  lane: Lane;
-  x: number;
-  y: number;
-  isJumping: boolean;
-  isSliding: boolean;
-  jumpHeight: number;
-  jumpVelocity: number;
-  health: number;
-  maxHealth: number;
-  isInvulnerable: boolean;
-  powerUpActive: boolean;
-  powerUpType: 'shield' | 'speed' | 'magnet' | 'health' | null;
-  powerUpTimer: number;
-}
-
-interface Obstacle {
-  id: number;
-  lane: Lane;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  type: 'barrier' | 'train' | 'tunnel' | 'spike' | 'laser';
-  rotation: number;
-  animationFrame: number;
-}
-
-interface Coin {
-  id: number;
-  lane: Lane;
-  x: number;
-  y: number;
-  collected: boolean;
-  value: number;
-  type: 'normal' | 'gold' | 'diamond';
-  rotation: number;
-  animationFrame: number;
-}
-
-interface PowerUp {
-  id: number;
-  lane: Lane;
-  x: number;
-  y: number;
-  type: 'shield' | 'speed' | 'magnet' | 'health';
-  collected: boolean;
-  rotation: number;
-  animationFrame: number;
-}
-
-interface Particle {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  color: string;
-  size: number;
-}
-
-const GAME_WIDTH = 900;
-const GAME_HEIGHT = 600;
-const LANE_WIDTH = GAME_WIDTH / 3;
-const PLAYER_WIDTH = 40;
-const PLAYER_HEIGHT = 60;
-const TRACK_HEIGHT = 600;
-const GAME_SPEED = 6;
-const JUMP_POWER = 18;
-const GRAVITY = 0.9;
-const MAX_JUMP_HEIGHT = 120;
+const LOGO_SIZE = 120;
+// The canvas's border-2 in CSS pixels, kept outside the fitted view
+const CANVAS_BORDER = 2;
 
 export const GameEngine = () => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameLoopRef = useRef<number>();
   const [gameState, setGameState] = useState<GameState>('start');
   const [score, setScore] = useState(0);
   const [coins, setCoins] = useState(0);
-  const [highScore, setHighScore] = useState(0);
+  const [isNewHighScore, setIsNewHighScore] = useState(false);
   const [level, setLevel] = useState(1);
-  
-  const [player, setPlayer] = useState<Player>({
-    lane: 1,
-    x: LANE_WIDTH + LANE_WIDTH / 2 - PLAYER_WIDTH / 2,
-    y: GAME_HEIGHT - 100, // Player starts at bottom of screen
-    isJumping: false,
-    isSliding: false,
-    jumpHeight: 0,
-    jumpVelocity: 0,
-    health: 100,
-    maxHealth: 100,
-    isInvulnerable: false,
-    powerUpActive: false,
-    powerUpType: null,
-    powerUpTimer: 0
-  });
+  const [seed, setSeed] = useState(0);
+  const [seedInput, setSeedInput] = useState('');
+
+  const [replayFrame, setReplayFrame] = useState(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const { toast } = useToast();
+  const { profile, recordRun, updateSettings, updateAchievements } = useProfile();
+  const audio = useAudio(profile.settings.volumes);
+  // Steps emit their gameplay events here, live and in replays alike
+  const [eventBus] = useState(createEventBus);
+  // Achievement progress is kept here during a run and saved to the profile when it changes hands
+  const achievementsRef = useRef(profile.achievements);
+  const runStatsRef = useRef(createRunStats());
+  const highScore = profile.bestDistance;
+  const { entries: leaderboardEntries, addEntry } = useLeaderboard();
+  const isMobile = useIsMobile();
+  const atlas = useSpriteAtlas();
+  const [pendingEntry, setPendingEntry] = useState<LeaderboardEntry | null>(null);
+  const [playerName, setPlayerName] = useState(profile.settings.playerName);
+  const [highlightedEntryId, setHighlightedEntryId] = useState<string>();
+  const [isControlsOpen, setIsControlsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [renderer, setRenderer] = useState<Renderer | null>(null);
+  const rendererBackend = profile.settings.renderer;
+
+  const simulationRef = useRef<SimulationState>(createInitialState());
+  const previousStateRef = useRef<SimulationState>(simulationRef.current);
+  const clockRef = useRef(createClock());
+  const pendingActionsRef = useRef<PlayerAction[]>([]);
+  const recordingRef = useRef<Replay>(createReplay(0));
+  const replayRef = useRef<Replay | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const previousGameStateRef = useRef<GameState>('start');
+  const viewport = useViewport(containerRef, CANVAS_BORDER * 2);
+  const camera = useMemo(
+    () => createCamera(profile.settings.fov, viewport.view),
+    [profile.settings.fov, viewport.view]
+  );
+  const renderQualityRef = useRef(profile.settings.renderQuality);
+  const frameMonitorRef = useRef(createFrameTimeMonitor());
 
-  const [obstacles, setObstacles] = useState<Obstacle[]>([]);
-  const [gameCoins, setGameCoins] = useState<Coin[]>([]);
-  const [powerUps, setPowerUps] = useState<PowerUp[]>([]);
-  const [particles, setParticles] = useState<Particle[]>([]);
-  
-  const obstacleIdRef = useRef(0);
-  const coinIdRef = useRef(0);
-  const powerUpIdRef = useRef(0);
-  const particleIdRef = useRef(0);
-  const distanceRef = useRef(0);
-  const frameCountRef = useRef(0);
-
-  const createParticle = useCallback((x: number, y: number, color: string, count: number = 5) => {
-    const newParticles: Particle[] = [];
-    for (let i = 0; i < count; i++) {
-      newParticles.push({
-        id: particleIdRef.current++,
-        x,
-        y,
-        vx: (Math.random() - 0.5) * 8,
-        vy: (Math.random() - 0.5) * 8,
-        life: 1,
-        maxLife: 1,
-        color,
-        size: Math.random() * 3 + 2
-      });
-    }
-    setParticles(prev => [...prev, ...newParticles]);
+  const syncHud = useCallback((state: SimulationState) => {
+    setScore(state.score);
+    setCoins(state.coins);
+    setLevel(state.level);
   }, []);
 
-  const drawGame = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-
-    // Draw animated background
-    const time = frameCountRef.current * 0.02;
-    const gradient = ctx.createLinearGradient(0, 0, 0, GAME_HEIGHT);
-    gradient.addColorStop(0, `hsl(${240 + Math.sin(time) * 10}, 100%, 8%)`);
-    gradient.addColorStop(1, `hsl(${270 + Math.cos(time) * 15}, 80%, 15%)`);
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-
-    // Draw moving stars
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
-    for (let i = 0; i < 50; i++) {
-      const x = (i * 37) % GAME_WIDTH;
-      const y = (i * 73 + time * 20) % GAME_HEIGHT;
-      const size = Math.sin(time + i) * 0.5 + 1;
-      ctx.beginPath();
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw track with perspective effect
-    const trackY = GAME_HEIGHT - TRACK_HEIGHT;
-    const trackGradient = ctx.createLinearGradient(0, trackY, 0, GAME_HEIGHT);
-    trackGradient.addColorStop(0, 'hsl(240, 30%, 12%)');
-    trackGradient.addColorStop(0.5, 'hsl(240, 40%, 10%)');
-    trackGradient.addColorStop(1, 'hsl(240, 50%, 8%)');
-    ctx.fillStyle = trackGradient;
-    ctx.fillRect(0, trackY, GAME_WIDTH, TRACK_HEIGHT);
-
-    // Draw track border with glow
-    ctx.strokeStyle = 'hsl(240, 50%, 25%)';
-    ctx.lineWidth = 3;
-    ctx.shadowColor = 'hsl(240, 50%, 25%)';
-    ctx.shadowBlur = 10;
-    ctx.beginPath();
-    ctx.moveTo(0, trackY);
-    ctx.lineTo(GAME_WIDTH, trackY);
-    ctx.stroke();
-    ctx.shadowBlur = 0;
-
-    // Draw lane divider lines with animation
-    ctx.strokeStyle = 'hsl(240, 50%, 30%)';
-    ctx.lineWidth = 2;
-    ctx.setLineDash([30, 15]);
-    ctx.lineDashOffset = -time * 2;
-    
-    for (let i = 1; i < 3; i++) {
-      ctx.beginPath();
-      ctx.moveTo(i * LANE_WIDTH, trackY + 20);
-      ctx.lineTo(i * LANE_WIDTH, GAME_HEIGHT - 20);
-      ctx.stroke();
-    }
-    ctx.setLineDash([]);
-
-    // Draw particles
-    particles.forEach(particle => {
-      ctx.globalAlpha = particle.life;
-      ctx.fillStyle = particle.color;
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-      ctx.fill();
-    });
-    ctx.globalAlpha = 1;
-
-    // Draw power-ups
-    powerUps.forEach(powerUp => {
-      if (!powerUp.collected) {
-        const colors = {
-          shield: 'hsl(195, 100%, 55%)',
-          speed: 'hsl(120, 100%, 50%)',
-          magnet: 'hsl(45, 100%, 60%)',
-          health: 'hsl(0, 100%, 50%)'
-        };
-        
-        ctx.save();
-        ctx.translate(powerUp.x + 20, powerUp.y + 20);
-        ctx.rotate(powerUp.rotation);
-        
-        // Draw power-up icon
-        ctx.fillStyle = colors[powerUp.type];
-        ctx.shadowColor = colors[powerUp.type];
-        ctx.shadowBlur = 20;
-        
-        if (powerUp.type === 'shield') {
-          ctx.beginPath();
-          ctx.arc(0, 0, 20, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.strokeStyle = 'white';
-          ctx.lineWidth = 3;
-          ctx.stroke();
-        } else if (powerUp.type === 'speed') {
-          ctx.fillRect(-15, -15, 30, 30);
-        } else if (powerUp.type === 'magnet') {
-          ctx.beginPath();
-          ctx.moveTo(-15, 15);
-          ctx.lineTo(0, -15);
-          ctx.lineTo(15, 15);
-          ctx.closePath();
-          ctx.fill();
-        } else if (powerUp.type === 'health') {
-          ctx.beginPath();
-          ctx.moveTo(0, -15);
-          ctx.lineTo(10, -5);
-          ctx.lineTo(15, 0);
-          ctx.lineTo(10, 5);
-          ctx.lineTo(0, 15);
-          ctx.lineTo(-10, 5);
-          ctx.lineTo(-15, 0);
-          ctx.lineTo(-10, -5);
-          ctx.closePath();
-          ctx.fill();
-        }
-        
-        ctx.shadowBlur = 0;
-        ctx.restore();
-      }
+  // alpha is how far the display is between the previous and current step
+  const drawGame = useCallback((alpha: number = 1) => {
+    if (!renderer) return;
+
+    const state = interpolateState(previousStateRef.current, simulationRef.current, alpha);
+    const isRunning = gameState === 'playing' || gameState === 'replay';
+    const started = performance.now();
+    renderer.draw(state, {
+      atlas,
+      camera,
+      quality: renderQualityRef.current,
+      showHud: isRunning
     });
 
-    // Draw obstacles with enhanced graphics
-    obstacles.forEach(obstacle => {
-      ctx.save();
-      ctx.translate(obstacle.x + obstacle.width / 2, obstacle.y + obstacle.height / 2);
-      ctx.rotate(obstacle.rotation);
-      
-      let color = 'hsl(0, 84%, 60%)';
-      let shadowColor = 'hsl(0, 84%, 60%)';
-      
-      if (obstacle.type === 'train') {
-        color = 'hsl(240, 50%, 30%)';
-        shadowColor = 'hsl(240, 50%, 30%)';
-      } else if (obstacle.type === 'tunnel') {
-        color = 'hsl(30, 80%, 40%)';
-        shadowColor = 'hsl(30, 80%, 40%)';
-      } else if (obstacle.type === 'spike') {
-        color = 'hsl(0, 100%, 40%)';
-        shadowColor = 'hsl(0, 100%, 40%)';
-      } else if (obstacle.type === 'laser') {
-        color = 'hsl(0, 100%, 60%)';
-        shadowColor = 'hsl(0, 100%, 60%)';
-      }
-      
-      ctx.fillStyle = color;
-      ctx.shadowColor = shadowColor;
-      ctx.shadowBlur = 15;
-      
-      if (obstacle.type === 'spike') {
-        ctx.beginPath();
-        ctx.moveTo(0, -obstacle.height / 2);
-        ctx.lineTo(-obstacle.width / 2, obstacle.height / 2);
-        ctx.lineTo(obstacle.width / 2, obstacle.height / 2);
-        ctx.closePath();
-        ctx.fill();
-      } else if (obstacle.type === 'laser') {
-        ctx.fillRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
-        // Add laser beam effect
-        ctx.strokeStyle = 'hsl(0, 100%, 80%)';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.moveTo(-obstacle.width / 2, 0);
-        ctx.lineTo(obstacle.width / 2, 0);
-        ctx.stroke();
-      } else {
-        ctx.fillRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
-      }
-      
-      ctx.shadowBlur = 0;
-      ctx.restore();
-    });
+    // Step quality down for the rest of the session while drawing keeps overrunning its budget
+    const quality = renderQualityRef.current;
+    if (isRunning && recordFrameTime(frameMonitorRef.current, performance.now() - started) && quality !== 'low') {
+      renderQualityRef.current = lowerQuality(quality);
+      toast({
+        title: 'Graphics quality lowered',
+        description: `Drawing was too slow, so effects were reduced to ${QUALITY_LABELS[renderQualityRef.current].toLowerCase()} quality.`
+      });
+    }
+  }, [gameState, atlas, camera, renderer, toast]);
 
-    // Draw coins with enhanced graphics
-    gameCoins.forEach(coin => {
-      if (!coin.collected) {
-        ctx.save();
-        ctx.translate(coin.x + 15, coin.y + 15);
-        ctx.rotate(coin.rotation);
-        
-        let color = 'hsl(45, 100%, 60%)';
-        let size = 15;
-        
-        if (coin.type === 'gold') {
-          color = 'hsl(45, 100%, 50%)';
-          size = 18;
-        } else if (coin.type === 'diamond') {
-          color = 'hsl(195, 100%, 70%)';
-          size = 20;
-        }
-        
-        ctx.fillStyle = color;
-        ctx.shadowColor = color;
-        ctx.shadowBlur = 20;
-        ctx.beginPath();
-        ctx.arc(0, 0, size, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Add shine effect
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
-        ctx.beginPath();
-        ctx.arc(-size * 0.3, -size * 0.3, size * 0.3, 0, Math.PI * 2);
-        ctx.fill();
-        
-        ctx.shadowBlur = 0;
-        ctx.restore();
-      }
-    });
+  const gameLoop = useCallback((now: number) => {
+    if (gameState !== 'playing') return;
 
-    // Draw player with enhanced graphics
-    const playerY = player.y - player.jumpHeight + (player.isSliding ? 20 : 0); // Player is at bottom, jumping reduces Y
-    const playerHeight = player.isSliding ? PLAYER_HEIGHT * 0.6 : PLAYER_HEIGHT;
-    
-    ctx.save();
-    ctx.translate(player.x + PLAYER_WIDTH / 2, playerY + playerHeight / 2);
-    
-    // Player glow effect
-    if (player.powerUpActive) {
-      const glowColors = {
-        shield: 'hsl(195, 100%, 55%)',
-        speed: 'hsl(120, 100%, 50%)',
-        magnet: 'hsl(45, 100%, 60%)'
-      };
-      
-      if (player.powerUpType && glowColors[player.powerUpType]) {
-        ctx.shadowColor = glowColors[player.powerUpType];
-        ctx.shadowBlur = 30;
+    const recording = recordingRef.current;
+    const steps = advanceClock(clockRef.current, now, FRAME_TIME);
+
+    for (let i = 0; i < steps; i++) {
+      const previous = simulationRef.current;
+      pendingActionsRef.current.forEach(action => recordEvent(recording, previous.frame, action));
+      const next = step(previous, { actions: pendingActionsRef.current }, FRAME_TIME);
+      pendingActionsRef.current = [];
+      previousStateRef.current = previous;
+      simulationRef.current = next;
+      recording.length = next.frame;
+      next.events.forEach(eventBus.emit);
+
+      if (next.isGameOver) {
+        drawGame();
+        return;
       }
     }
-    
-    // Player body
-    ctx.fillStyle = 'hsl(270, 100%, 65%)';
-    ctx.fillRect(-PLAYER_WIDTH / 2, -playerHeight / 2, PLAYER_WIDTH, playerHeight);
-    
-    // Player details
-    ctx.fillStyle = 'hsl(270, 100%, 45%)';
-    ctx.fillRect(-PLAYER_WIDTH / 2 + 5, -playerHeight / 2 + 5, PLAYER_WIDTH - 10, 10);
-    
-    // Eyes
-    ctx.fillStyle = 'white';
-    ctx.beginPath();
-    ctx.arc(-8, -playerHeight / 2 + 15, 4, 0, Math.PI * 2);
-    ctx.arc(8, -playerHeight / 2 + 15, 4, 0, Math.PI * 2);
-    ctx.fill();
-    
-    ctx.fillStyle = 'black';
-    ctx.beginPath();
-    ctx.arc(-8, -playerHeight / 2 + 15, 2, 0, Math.PI * 2);
-    ctx.arc(8, -playerHeight / 2 + 15, 2, 0, Math.PI * 2);
-    ctx.fill();
-    
-    ctx.shadowBlur = 0;
-    ctx.restore();
-
-    // Draw health bar
-    if (gameState === 'playing') {
-      const barWidth = 200;
-      const barHeight = 20;
-      const barX = 20;
-      const barY = 20;
-      
-      // Background
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillRect(barX, barY, barWidth, barHeight);
-      
-      // Health bar
-      const healthPercent = player.health / player.maxHealth;
-      const healthColor = healthPercent > 0.6 ? 'hsl(120, 100%, 50%)' : 
-                         healthPercent > 0.3 ? 'hsl(45, 100%, 50%)' : 'hsl(0, 100%, 50%)';
-      
-      ctx.fillStyle = healthColor;
-      ctx.fillRect(barX + 2, barY + 2, (barWidth - 4) * healthPercent, barHeight - 4);
-      
-      // Border
-      ctx.strokeStyle = 'white';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(barX, barY, barWidth, barHeight);
-    }
-  }, [player, obstacles, gameCoins, powerUps, particles]);
-
-  const drawLogo = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
-    ctx.save();
-    ctx.translate(x, y);
-    
-    // Logo background circle with glow
-    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, size);
-    gradient.addColorStop(0, 'hsl(270, 100%, 75%)');
-    gradient.addColorStop(0.7, 'hsl(270, 100%, 55%)');
-    gradient.addColorStop(1, 'hsl(270, 100%, 35%)');
-    
-    ctx.shadowColor = 'hsl(270, 100%, 65%)';
-    ctx.shadowBlur = 20;
-    ctx.fillStyle = gradient;
-    ctx.beginPath();
-    ctx.arc(0, 0, size, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.shadowBlur = 0;
-    
-    // Inner circle
-    ctx.fillStyle = 'hsl(270, 100%, 85%)';
-    ctx.beginPath();
-    ctx.arc(0, 0, size * 0.7, 0, Math.PI * 2);
-    ctx.fill();
-    
-    // Runner figure
-    ctx.fillStyle = 'hsl(270, 100%, 25%)';
-    
-    // Head
-    ctx.beginPath();
-    ctx.arc(0, -size * 0.3, size * 0.15, 0, Math.PI * 2);
-    ctx.fill();
-    
-    // Body
-    ctx.fillRect(-size * 0.1, -size * 0.1, size * 0.2, size * 0.4);
-    
-    // Arms (running pose)
-    ctx.save();
-    ctx.translate(-size * 0.15, -size * 0.05);
-    ctx.rotate(Math.sin(frameCountRef.current * 0.1) * 0.3);
-    ctx.fillRect(-size * 0.05, -size * 0.15, size * 0.1, size * 0.3);
-    ctx.restore();
-    
-    ctx.save();
-    ctx.translate(size * 0.15, -size * 0.05);
-    ctx.rotate(-Math.sin(frameCountRef.current * 0.1) * 0.3);
-    ctx.fillRect(-size * 0.05, -size * 0.15, size * 0.1, size * 0.3);
-    ctx.restore();
-    
-    // Legs (running pose)
-    ctx.save();
-    ctx.translate(-size * 0.08, size * 0.15);
-    ctx.rotate(Math.sin(frameCountRef.current * 0.1 + 1) * 0.4);
-    ctx.fillRect(-size * 0.06, -size * 0.25, size * 0.12, size * 0.25);
-    ctx.restore();
-    
-    ctx.save();
-    ctx.translate(size * 0.08, size * 0.15);
-    ctx.rotate(-Math.sin(frameCountRef.current * 0.1 + 1) * 0.4);
-    ctx.fillRect(-size * 0.06, -size * 0.25, size * 0.12, size * 0.25);
-    ctx.restore();
-    
-    // Speed lines
-    ctx.strokeStyle = 'hsl(270, 100%, 75%)';
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
-    
-    for (let i = 0; i < 3; i++) {
-      ctx.beginPath();
-      ctx.moveTo(-size * 0.8 + i * size * 0.1, -size * 0.3 + i * size * 0.1);
-      ctx.lineTo(-size * 1.2 + i * size * 0.1, -size * 0.1 + i * size * 0.1);
-      ctx.stroke();
-    }
-    
-    ctx.setLineDash([]);
-    
-    ctx.restore();
-  }, []);
 
-  const spawnObstacle = useCallback(() => {
-    const lane = Math.floor(Math.random() * 3) as Lane;
-    const obstacleTypes: Obstacle['type'][] = ['barrier', 'train', 'tunnel', 'spike', 'laser'];
-    const type = obstacleTypes[Math.floor(Math.random() * obstacleTypes.length)];
-    
-    let width = 60;
-    let height = 80;
-    
-    if (type === 'spike') {
-      width = 40;
-      height = 60;
-    } else if (type === 'laser') {
-      width = 80;
-      height = 20;
+    if (steps > 0) {
+      syncHud(simulationRef.current);
     }
-    
-    const obstacle: Obstacle = {
-      id: obstacleIdRef.current++,
-      lane,
-      x: lane * LANE_WIDTH + LANE_WIDTH / 2 - width / 2,
-      y: 50, // Obstacles spawn at top of screen
-      width,
-      height,
-      type,
-      rotation: 0,
-      animationFrame: 0
-    };
-    setObstacles(prev => [...prev, obstacle]);
-  }, []);
-
-  const spawnCoin = useCallback(() => {
-    const lane = Math.floor(Math.random() * 3) as Lane;
-    const coinTypes: Coin['type'][] = ['normal', 'gold', 'diamond'];
-    const type = coinTypes[Math.floor(Math.random() * coinTypes.length)];
-    
-    const coin: Coin = {
-      id: coinIdRef.current++,
-      lane,
-      x: lane * LANE_WIDTH + LANE_WIDTH / 2 - 15,
-      y: 30, // Coins spawn at top of screen
-      collected: false,
-      value: type === 'normal' ? 1 : type === 'gold' ? 5 : 10,
-      type,
-      rotation: 0,
-      animationFrame: 0
-    };
-    setGameCoins(prev => [...prev, coin]);
-  }, []);
+    drawGame(interpolationAlpha(clockRef.current, FRAME_TIME));
 
-  const spawnPowerUp = useCallback(() => {
-    const lane = Math.floor(Math.random() * 3) as Lane;
-    const powerUpTypes: PowerUp['type'][] = ['shield', 'speed', 'magnet', 'health'];
-    const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)];
-    
-    const powerUp: PowerUp = {
-      id: powerUpIdRef.current++,
-      lane,
-      x: lane * LANE_WIDTH + LANE_WIDTH / 2 - 20,
-      y: 30, // Power-ups spawn at top of screen
-      type,
-      collected: false,
-      rotation: 0,
-      animationFrame: 0
-    };
-    setPowerUps(prev => [...prev, powerUp]);
-  }, []);
+    gameLoopRef.current = requestAnimationFrame(gameLoop);
+  }, [gameState, drawGame, syncHud, eventBus]);
 
-  const checkCollisions = useCallback(() => {
-    if (player.isInvulnerable) return;
-    
-    const playerRect = {
-      x: player.x,
-      y: player.y - player.jumpHeight + (player.isSliding ? 20 : 0), // Player is at bottom, jumping reduces Y position
-      width: PLAYER_WIDTH,
-      height: player.isSliding ? PLAYER_HEIGHT * 0.6 : PLAYER_HEIGHT
-    };
+  const replayLoop = useCallback((now: number) => {
+    const replay = replayRef.current;
+    if (gameState !== 'replay' || !isReplayPlaying || !replay) return;
 
-    // Check obstacle collisions
-    for (const obstacle of obstacles) {
-      if (obstacle.x < playerRect.x + playerRect.width &&
-          obstacle.x + obstacle.width > playerRect.x &&
-          obstacle.y < playerRect.y + playerRect.height &&
-          obstacle.y + obstacle.height > playerRect.y) {
-        
-        if (player.powerUpActive && player.powerUpType === 'shield') {
-          // Shield protects from damage
-          createParticle(player.x + PLAYER_WIDTH / 2, player.y, 'hsl(195, 100%, 55%)', 10);
-          return;
-        }
-        
-        // Take damage
-        setPlayer(prev => ({
-          ...prev,
-          health: Math.max(0, prev.health - 25),
-          isInvulnerable: true
-        }));
-        
-        createParticle(player.x + PLAYER_WIDTH / 2, player.y, 'hsl(0, 100%, 50%)', 15);
-        
-        // Check if player dies
-        if (player.health <= 25) {
-          setGameState('gameOver');
-          if (score > highScore) {
-            setHighScore(score);
-          }
-          return;
-        }
-        
-        // Invulnerability period
-        setTimeout(() => {
-          setPlayer(prev => ({ ...prev, isInvulnerable: false }));
-        }, 2000);
-        
-        return;
-      }
+    const steps = advanceClock(clockRef.current, now, replay.frameTime);
+    for (let i = 0; i < steps; i++) {
+      previousStateRef.current = simulationRef.current;
+      simulationRef.current = stepReplay(replay, simulationRef.current);
+      simulationRef.current.events.forEach(eventBus.emit);
     }
 
-    // Check coin collections
-    setGameCoins(prev => prev.map(coin => {
-      if (!coin.collected &&
-          coin.x < playerRect.x + playerRect.width &&
-          coin.x + 30 > playerRect.x &&
-          coin.y < playerRect.y + playerRect.height &&
-          coin.y + 30 > playerRect.y) {
-        
-        const coinValue = coin.value;
-        setCoins(c => c + coinValue);
-        createParticle(coin.x + 15, coin.y + 15, 'hsl(45, 100%, 60%)', 8);
-        return { ...coin, collected: true };
-      }
-      return coin;
-    }));
-
-    // Check power-up collections
-    setPowerUps(prev => prev.map(powerUp => {
-      if (!powerUp.collected &&
-          powerUp.x < playerRect.x + PLAYER_WIDTH &&
-          powerUp.x + 40 > playerRect.x &&
-          powerUp.y < playerRect.y + playerRect.height &&
-          powerUp.y + 40 > playerRect.y) {
-        
-        setPlayer(prev => ({
-          ...prev,
-          powerUpActive: true,
-          powerUpType: powerUp.type,
-          powerUpTimer: 10000, // 10 seconds
-          health: powerUp.type === 'health' ? Math.min(prev.maxHealth, prev.health + 25) : prev.health
-        }));
-        
-        createParticle(powerUp.x + 20, powerUp.y + 20, 'hsl(195, 100%, 55%)', 12);
-        return { ...powerUp, collected: true };
-      }
-      return powerUp;
-    }));
-  }, [player, obstacles, highScore, score, createParticle]);
+    const current = simulationRef.current;
+    setReplayFrame(current.frame);
+    syncHud(current);
 
-  const gameLoop = useCallback(() => {
-    if (gameState !== 'playing') return;
+    if (current.isGameOver || current.frame >= replay.length) {
+      drawGame();
+      setIsReplayPlaying(false);
+      return;
+    }
 
-    frameCountRef.current++;
+    drawGame(interpolationAlpha(clockRef.current, replay.frameTime));
+    gameLoopRef.current = requestAnimationFrame(replayLoop);
+  }, [gameState, isReplayPlaying, drawGame, syncHud, eventBus]);
 
-    // Update player physics
-    setPlayer(prev => {
-      const newPlayer = { ...prev };
-      
-      if (newPlayer.isJumping) {
-        newPlayer.jumpVelocity += JUMP_POWER;
-        newPlayer.jumpHeight += newPlayer.jumpVelocity;
-        if (newPlayer.jumpHeight >= MAX_JUMP_HEIGHT) {
-          newPlayer.isJumping = false;
-          newPlayer.jumpVelocity = 0;
-        }
-      } else if (newPlayer.jumpHeight > 0) {
-        newPlayer.jumpHeight -= GRAVITY;
-        if (newPlayer.jumpHeight <= 0) {
-          newPlayer.jumpHeight = 0;
-          newPlayer.jumpVelocity = 0;
-        }
-      }
+  const startGame = useCallback((runSeed: number = parseSeed(seedInput) ?? randomSeed()) => {
+    audio?.resume();
+    setGameState('playing');
+    setScore(0);
+    setCoins(0);
+    setLevel(1);
+    setSeed(runSeed);
+    setPendingEntry(null);
+    simulationRef.current = createInitialState(runSeed);
+    previousStateRef.current = simulationRef.current;
+    pendingActionsRef.current = [];
+    recordingRef.current = createReplay(runSeed);
+    achievementsRef.current = profile.achievements;
+    runStatsRef.current = createRunStats();
+  }, [audio, seedInput, profile.achievements]);
+
+  const startReplay = (replay: Replay) => {
+    audio?.resume();
+    replayRef.current = replay;
+    simulationRef.current = createInitialState(replay.seed);
+    previousStateRef.current = simulationRef.current;
+    syncHud(simulationRef.current);
+    setSeed(replay.seed);
+    setReplayFrame(0);
+    setIsReplayPlaying(true);
+    setGameState('replay');
+  };
 
-      // Update power-up timer
-      if (newPlayer.powerUpActive && newPlayer.powerUpTimer > 0) {
-        newPlayer.powerUpTimer -= 16; // Assuming 60fps
-        if (newPlayer.powerUpTimer <= 0) {
-          newPlayer.powerUpActive = false;
-          newPlayer.powerUpType = null;
-        }
-      }
+  const scrubReplay = (frame: number) => {
+    const replay = replayRef.current;
+    if (!replay) return;
 
-      return newPlayer;
-    });
+    setIsReplayPlaying(false);
+    simulationRef.current = simulateReplay(replay, frame, simulationRef.current);
+    previousStateRef.current = simulationRef.current;
+    setReplayFrame(simulationRef.current.frame);
+    syncHud(simulationRef.current);
+    drawGame();
+  };
 
-    // Update obstacles
-    setObstacles(prev => prev
-      .map(obstacle => ({
-        ...obstacle,
-        y: obstacle.y + GAME_SPEED, // This now moves obstacles downward
-        rotation: obstacle.rotation + 0.02,
-        animationFrame: obstacle.animationFrame + 1
-      }))
-      .filter(obstacle => obstacle.y < GAME_HEIGHT + 100) // Remove obstacles that go below screen
-    );
-
-    // Update coins
-    setGameCoins(prev => prev
-      .map(coin => ({
-        ...coin,
-        y: coin.y + GAME_SPEED, // This now moves coins downward
-        rotation: coin.rotation + 0.05,
-        animationFrame: coin.animationFrame + 1
-      }))
-      .filter(coin => coin.y < GAME_HEIGHT + 50) // Remove coins that go below screen
-    );
-
-    // Update power-ups
-    setPowerUps(prev => prev
-      .map(powerUp => ({
-        ...powerUp,
-        y: powerUp.y + GAME_SPEED, // This now moves power-ups downward
-        rotation: powerUp.rotation + 0.03,
-        animationFrame: powerUp.animationFrame + 1
-      }))
-      .filter(powerUp => powerUp.y < GAME_HEIGHT + 50) // Remove power-ups that go below screen
-    );
-
-    // Update particles
-    setParticles(prev => prev
-      .map(particle => ({
-        ...particle,
-        x: particle.x + particle.vx,
-        y: particle.y + particle.vy,
-        life: particle.life - 0.02,
-        vy: particle.vy + 0.1 // gravity
-      }))
-      .filter(particle => particle.life > 0)
-    );
-
-    // Spawn obstacles and collectibles
-    distanceRef.current += GAME_SPEED;
-    if (distanceRef.current % 100 === 0) {
-      spawnObstacle();
-    }
-    if (distanceRef.current % 150 === 0) {
-      spawnCoin();
-    }
-    if (distanceRef.current % 300 === 0) {
-      spawnPowerUp();
-    }
+  const toggleReplayPlayback = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay) return;
 
-    // Update score and level
-    const newScore = Math.floor(distanceRef.current / 10);
-    setScore(newScore);
-    
-    const newLevel = Math.floor(newScore / 100) + 1;
-    if (newLevel !== level) {
-      setLevel(newLevel);
+    // Playing from the end starts over
+    if (!isReplayPlaying && simulationRef.current.frame >= replay.length) {
+      simulationRef.current = createInitialState(replay.seed);
+      previousStateRef.current = simulationRef.current;
+      setReplayFrame(0);
     }
+    setIsReplayPlaying(playing => !playing);
+  }, [isReplayPlaying]);
+
+  const loadReplayFile = async (file: File) => {
+    try {
+      startReplay(parseReplay(await file.text()));
+    } catch (error) {
+      toast({
+        title: 'Could not load replay',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  };
 
-    checkCollisions();
-    drawGame();
-
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, spawnObstacle, spawnCoin, spawnPowerUp, checkCollisions, drawGame, level]);
+  const saveLeaderboardEntry = () => {
+    if (!pendingEntry) return;
 
-  const startGame = () => {
-    setGameState('playing');
-    setScore(0);
-    setCoins(0);
-    setLevel(1);
-    distanceRef.current = 0;
-    frameCountRef.current = 0;
-    setObstacles([]);
-    setGameCoins([]);
-    setPowerUps([]);
-    setParticles([]);
-    setPlayer({
-      lane: 1,
-      x: LANE_WIDTH + LANE_WIDTH / 2 - PLAYER_WIDTH / 2,
-      y: GAME_HEIGHT - 100, // Player starts at bottom of screen
-      isJumping: false,
-      isSliding: false,
-      jumpHeight: 0,
-      jumpVelocity: 0,
-      health: 100,
-      maxHealth: 100,
-      isInvulnerable: false,
-      powerUpActive: false,
-      powerUpType: null,
-      powerUpTimer: 0
-    });
+    const name = playerName.trim() || 'Runner';
+    addEntry({ ...pendingEntry, name });
+    updateSettings({ playerName: name });
+    setHighlightedEntryId(pendingEntry.id);
+    setPendingEntry(null);
+    setGameState('leaderboard');
   };
 
   const resetGame = () => {
     setGameState('start');
+    setIsReplayPlaying(false);
     if (gameLoopRef.current) {
       cancelAnimationFrame(gameLoopRef.current);
     }
   };
 
-  const togglePause = () => {
-    if (gameState === 'playing') {
-      setGameState('paused');
-    } else if (gameState === 'paused') {
-      setGameState('playing');
-    }
-  };
+  const togglePause = useCallback(() => {
+    setGameState(current => (current === 'playing' ? 'paused' : current === 'paused' ? 'playing' : current));
+  }, []);
 
-  const handleKeyPress = useCallback((event: KeyboardEvent) => {
-    if (gameState === 'start') {
-      if (event.key === ' ') {
-        startGame();
-        event.preventDefault();
-      }
-      return;
+  // Keyboard, touch and gamepads all report through here
+  const dispatchAction = useCallback((action: InputAction) => {
+    if (action === 'pause') {
+      togglePause();
+    } else if (gameState === 'playing') {
+      pendingActionsRef.current.push(action);
+    }
+  }, [gameState, togglePause]);
+
+  // Only the jump cares about being let go, for its variable height. Letting go
+  // while paused is kept for the first step after resuming, or the jump would
+  // come back still held
+  const releaseAction = useCallback((action: InputAction) => {
+    if (action === 'jump' && (gameState === 'playing' || gameState === 'paused')) {
+      pendingActionsRef.current.push('releaseJump');
     }
+  }, [gameState]);
 
-    if (gameState === 'gameOver') {
-      if (event.key === ' ') {
-        startGame();
-        event.preventDefault();
-      }
-      return;
+  useSwipeControls(canvasRef, {
+    enabled: gameState === 'playing' || gameState === 'paused',
+    deadZone: profile.settings.swipeDeadZone,
+    onAction: dispatchAction,
+    onRelease: releaseAction,
+    onPause: () => dispatchAction('pause')
+  });
+
+  const { connected: gamepadsConnected } = useGamepads({
+    enabled: gameState === 'playing' || gameState === 'paused',
+    bindings: profile.settings.gamepadBindings,
+    onAction: dispatchAction,
+    onRelease: releaseAction,
+    onConfirm: () => {
+      // Rebinding listens for the next press, and an unsaved leaderboard name would be lost
+      if (isControlsOpen || isSettingsOpen || pendingEntry) return;
+      if (gameState === 'start' || gameState === 'gameOver') startGame();
     }
+  });
+
+  const keysFor = (action: InputAction) => profile.settings.keyBindings[action].map(keyLabel).join(' / ');
+  // Controller buttons can be left unbound, unlike keys
+  const buttonsFor = (action: InputAction) =>
+    profile.settings.gamepadBindings[action].map(gamepadButtonName).join(' / ') || 'unbound';
 
-    if (gameState === 'paused') {
-      if (event.key === ' ') {
-        setGameState('playing');
+  const handleKeyPress = useCallback((event: KeyboardEvent) => {
+    // Let form fields such as the seed input receive their keys
+    if (event.target instanceof HTMLInputElement || isControlsOpen || isSettingsOpen) return;
+
+    if (gameState === 'playing' || gameState === 'paused') {
+      const action = actionForKey(event.key, profile.settings.keyBindings);
+      if (action) {
+        // Held keys repeat, which would otherwise chain buffered jumps
+        if (!event.repeat) dispatchAction(action);
         event.preventDefault();
+        return;
       }
-      return;
     }
 
-    if (gameState !== 'playing') return;
+    // Space confirms on menus whatever the bindings are
+    if (event.key !== ' ') return;
 
-    setPlayer(prev => {
-      let newPlayer = { ...prev };
-      
-      switch (event.key) {
-        case 'ArrowLeft':
-        case 'a':
-        case 'A':
-          if (newPlayer.lane > 0) {
-            newPlayer.lane = (newPlayer.lane - 1) as Lane;
-            newPlayer.x = newPlayer.lane * LANE_WIDTH + LANE_WIDTH / 2 - PLAYER_WIDTH / 2;
-          }
-          break;
-        case 'ArrowRight':
-        case 'd':
-        case 'D':
-          if (newPlayer.lane < 2) {
-            newPlayer.lane = (newPlayer.lane + 1) as Lane;
-            newPlayer.x = newPlayer.lane * LANE_WIDTH + LANE_WIDTH / 2 - PLAYER_WIDTH / 2;
-          }
-          break;
-        case ' ':
-        case 'ArrowUp':
-        case 'w':
-        case 'W':
-          if (newPlayer.jumpHeight === 0) {
-            newPlayer.isJumping = true;
-            newPlayer.jumpVelocity = 0;
-          }
-          event.preventDefault();
-          break;
-        case 'ArrowDown':
-        case 's':
-        case 'S':
-          newPlayer.isSliding = true;
-          setTimeout(() => {
-            setPlayer(p => ({ ...p, isSliding: false }));
-          }, 500);
-          break;
-        case 'p':
-        case 'P':
-        case 'Escape':
-          togglePause();
-          event.preventDefault();
-          break;
-      }
-      
-      return newPlayer;
-    });
-  }, [gameState]);
+    if (gameState === 'start' || gameState === 'gameOver') {
+      startGame();
+      event.preventDefault();
+    } else if (gameState === 'paused') {
+      setGameState('playing');
+      event.preventDefault();
+    } else if (gameState === 'replay') {
+      toggleReplayPlayback();
+      event.preventDefault();
+    }
+  }, [gameState, isControlsOpen, isSettingsOpen, profile.settings.keyBindings, dispatchAction, startGame, toggleReplayPlayback]);
+
+  const handleKeyRelease = useCallback((event: KeyboardEvent) => {
+    const action = actionForKey(event.key, profile.settings.keyBindings);
+    if (action) releaseAction(action);
+  }, [profile.settings.keyBindings, releaseAction]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [handleKeyPress]);
+    window.addEventListener('keyup', handleKeyRelease);
+    return () => {
+      window.removeEventListener('keydown', handleKeyPress);
+      window.removeEventListener('keyup', handleKeyRelease);
+    };
+  }, [handleKeyPress, handleKeyRelease]);
+
+  useEffect(() => {
+    const previousGameState = previousGameStateRef.current;
+    previousGameStateRef.current = gameState;
+    const frame = simulationRef.current.frame;
+
+    if (gameState === 'paused' && previousGameState === 'playing') {
+      recordEvent(recordingRef.current, frame, 'pause');
+    } else if (gameState === 'playing' && previousGameState === 'paused') {
+      recordEvent(recordingRef.current, frame, 'resume');
+    }
+  }, [gameState]);
 
   useEffect(() => {
     if (gameState === 'playing') {
+      // Time spent outside the loop, e.g. paused, is never simulated
+      clockRef.current = createClock();
       gameLoopRef.current = requestAnimationFrame(gameLoop);
     } else if (gameLoopRef.current) {
       cancelAnimationFrame(gameLoopRef.current);
@@ -899,24 +395,131 @@ export const GameEngine = () => {
     };
   }, [gameState, gameLoop]);
 
+  useEffect(() => {
+    if (gameState === 'replay' && isReplayPlaying) {
+      clockRef.current = createClock();
+      gameLoopRef.current = requestAnimationFrame(replayLoop);
+    }
+
+    return () => {
+      if (gameLoopRef.current) {
+        cancelAnimationFrame(gameLoopRef.current);
+      }
+    };
+  }, [gameState, isReplayPlaying, replayLoop]);
+
+  useEffect(() => {
+    if (!audio) return;
+    return eventBus.onAny((event) => {
+      const cue = cueForEvent(event);
+      if (cue) audio.play(cue);
+    });
+  }, [audio, eventBus]);
+
+  // Only a live run ends in the game-over screen; a replay just stops
+  useEffect(() => {
+    if (gameState !== 'playing') return;
+    return eventBus.on('runEnded', ({ distance, coins, level, frame }) => {
+      syncHud(simulationRef.current);
+      setGameState('gameOver');
+      setIsNewHighScore(distance > highScore);
+      recordRun({ distance, coins, level });
+      setPendingEntry(qualifiesForLeaderboard(leaderboardEntries, distance) ? {
+        id: crypto.randomUUID(),
+        name: '',
+        distance,
+        coins,
+        level,
+        seed: simulationRef.current.seed,
+        date: new Date().toISOString(),
+        duration: Math.round(frame * FRAME_TIME)
+      } : null);
+    });
+  }, [gameState, eventBus, highScore, recordRun, leaderboardEntries, syncHud]);
+
+  // Only live runs count towards achievements; progress is saved on each unlock and whenever the run stops
+  useEffect(() => {
+    if (gameState !== 'playing') return;
+    const unsubscribe = eventBus.onAny((event) => {
+      const update = applyAchievementEvent(achievementsRef.current, runStatsRef.current, event, simulationRef.current);
+      achievementsRef.current = update.progress;
+      runStatsRef.current = update.run;
+      if (update.unlocked.length === 0) return;
+
+      update.unlocked.forEach(achievement => toast({
+        title: `🏆 Achievement unlocked: ${achievement.title}`,
+        description: achievement.description
+      }));
+      updateAchievements(update.progress);
+    });
+    return () => {
+      unsubscribe();
+      updateAchievements(achievementsRef.current);
+    };
+  }, [gameState, eventBus, toast, updateAchievements]);
+
+  // Music plays while a run is played or watched, speeding up with the level
+  const isMusicPlaying = gameState === 'playing' || (gameState === 'replay' && isReplayPlaying);
+  useEffect(() => {
+    if (!audio || !isMusicPlaying) return;
+    audio.startMusic();
+    return () => audio.stopMusic();
+  }, [audio, isMusicPlaying]);
+
+  useEffect(() => {
+    audio?.setLevel(level);
+  }, [audio, level]);
+
+  // Resizing the canvas clears it, so it is redrawn whenever the viewport changes too
   useEffect(() => {
     drawGame();
-  }, [drawGame]);
+  }, [drawGame, viewport]);
+
+  // The canvas is keyed by backend, so each backend gets a fresh canvas to create its context on
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const created = createRenderer(canvas, rendererBackend);
+    if (!created) {
+      if (rendererBackend === 'canvas2d') return;
+      toast({
+        title: `${BACKEND_LABELS[rendererBackend]} is not available`,
+        description: 'Switched back to Canvas 2D drawing.',
+        variant: 'destructive'
+      });
+      updateSettings({ renderer: 'canvas2d' });
+      return;
+    }
+    setRenderer(created);
+    return () => {
+      created.dispose();
+      setRenderer(null);
+    };
+  }, [rendererBackend, toast, updateSettings]);
+
+  // Choosing a quality starts measuring afresh from it
+  useEffect(() => {
+    renderQualityRef.current = profile.settings.renderQuality;
+    frameMonitorRef.current = createFrameTimeMonitor();
+  }, [profile.settings.renderQuality]);
 
   return (
-    <div className="game-container">
+    <div ref={containerRef} className="game-container">
       <canvas
+        key={rendererBackend}
         ref={canvasRef}
-        width={GAME_WIDTH}
-        height={GAME_HEIGHT}
+        width={viewport.pixelWidth}
+        height={viewport.pixelHeight}
         className="game-canvas"
         style={{
-          imageRendering: 'crisp-edges'
+          width: viewport.cssWidth,
+          height: viewport.cssHeight
         }}
       />
       
       <div className="game-ui">
-        {gameState === 'playing' && (
+        {(gameState === 'playing' || gameState === 'replay') && (
           <div className="game-score">
             <div className="text-3xl font-bold mb-2">Level {level}</div>
             <div className="text-2xl mb-1">Distance: {score}m</div>
@@ -929,14 +532,16 @@ export const GameEngine = () => {
           <div className="game-menu">
             <div className="logo-container mb-6">
               <canvas
-                width={120}
-                height={120}
+                width={LOGO_SIZE * viewport.pixelRatio}
+                height={LOGO_SIZE * viewport.pixelRatio}
                 className="game-logo"
+                style={{ width: LOGO_SIZE, height: LOGO_SIZE }}
                 ref={(canvas) => {
                   if (canvas) {
                     const ctx = canvas.getContext('2d');
                     if (ctx) {
-                      drawLogo(ctx, 60, 60, 50);
+                      ctx.setTransform(viewport.pixelRatio, 0, 0, viewport.pixelRatio, 0, 0);
+                      drawLogo(ctx, LOGO_SIZE / 2, LOGO_SIZE / 2, 50, simulationRef.current.frame);
                     }
                   }
                 }}
@@ -945,9 +550,14 @@ export const GameEngine = () => {
             <h1 className="game-title">Lane Leaper Runner</h1>
             <p className="game-instructions">
               <strong>Controls:</strong><br />
-              WASD or Arrow Keys to move and jump<br />
-              Space to jump • S/Down to slide<br />
-              P or Escape to pause<br />
+              Move: {keysFor('moveLeft')} and {keysFor('moveRight')}<br />
+              Jump: {keysFor('jump')} (hold for higher) • Slide: {keysFor('slide')}<br />
+              Pause: {keysFor('pause')}<br />
+              On touch screens swipe to move, jump and slide • Two-finger tap to pause<br />
+              Controllers: Move: {buttonsFor('moveLeft')} and {buttonsFor('moveRight')} • Jump: {buttonsFor('jump')} •
+              Slide: {buttonsFor('slide')} • Pause: {buttonsFor('pause')}<br />
+              Jump barriers and spikes • Slide under lasers and tunnels<br />
+              Dodge trains or land on their roofs<br />
               Collect coins, power-ups, and avoid obstacles!
             </p>
             <div className="text-lg text-muted-foreground mb-6">
@@ -955,24 +565,84 @@ export const GameEngine = () => {
               <div className="mb-2">🥇 Gold Coins: 5 points</div>
               <div className="mb-2">💎 Diamond Coins: 10 points</div>
               <div className="mb-2">🛡️ Shield: Protects from damage</div>
-              <div className="mb-2">⚡ Speed: Temporary speed boost</div>
-              <div className="mb-2">🧲 Magnet: Attracts nearby coins</div>
+              <div className="mb-2">⚡ Speed: Faster run, double score, smashes obstacles</div>
+              <div className="mb-2">🧲 Magnet: Pulls in coins from nearby lanes</div>
               <div className="mb-2">❤️ Health: Restores health</div>
             </div>
-            <Button onClick={startGame} className="game-button">
-              Start Running!
-            </Button>
+            {profile.runsPlayed > 0 && (
+              <div className="text-lg mb-6">
+                Best: {profile.bestDistance}m • Lifetime Coins: {profile.lifetimeCoins} • Runs: {profile.runsPlayed}
+              </div>
+            )}
+            <div className="flex gap-2 mb-6 justify-center">
+              <Input
+                value={seedInput}
+                onChange={(event) => setSeedInput(event.target.value)}
+                placeholder="Seed (random if empty)"
+                className="w-56"
+              />
+              <Button onClick={() => setSeedInput(formatSeed(dailySeed()))} variant="outline">
+                Seed of the Day
+              </Button>
+            </div>
+            <div className="flex flex-wrap justify-center gap-4">
+              <Button onClick={() => startGame()} className="game-button">
+                Start Running!
+              </Button>
+              <Button onClick={() => replayInputRef.current?.click()} variant="outline" className="game-button">
+                Load Replay
+              </Button>
+              <Button
+                onClick={() => {
+                  setHighlightedEntryId(undefined);
+                  setGameState('leaderboard');
+                }}
+                variant="outline"
+                className="game-button"
+              >
+                Leaderboard
+              </Button>
+              <Button onClick={() => setGameState('achievements')} variant="outline" className="game-button">
+                Achievements
+              </Button>
+              <Button onClick={() => setIsControlsOpen(true)} variant="outline" className="game-button">
+                Controls
+              </Button>
+              <Button onClick={() => setIsSettingsOpen(true)} variant="outline" className="game-button">
+                Settings
+              </Button>
+            </div>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) loadReplayFile(file);
+                event.target.value = '';
+              }}
+            />
           </div>
         )}
 
         {gameState === 'paused' && (
           <div className="game-menu">
             <h2 className="text-4xl font-bold mb-4">Game Paused</h2>
-            <p className="text-lg mb-6">Press Space or P to resume</p>
+            <p className="text-lg mb-6">
+              Press Space, {keysFor('pause')}
+              {profile.settings.gamepadBindings.pause.length > 0 && ` or ${buttonsFor('pause')}`} to resume
+            </p>
             <div className="flex gap-4">
               <Button onClick={() => setGameState('playing')} className="game-button">
                 Resume
               </Button>
+              <Button onClick={() => setIsControlsOpen(true)} variant="outline" className="game-button">
+                Controls
+              </Button>
+              <Button onClick={() => setIsSettingsOpen(true)} variant="outline" className="game-button">
+                Settings
+              </Button>
               <Button onClick={resetGame} variant="outline" className="game-button">
                 Main Menu
               </Button>
@@ -986,19 +656,91 @@ export const GameEngine = () => {
             <div className="text-2xl mb-2">Final Distance: {score}m</div>
             <div className="text-xl mb-2 text-game-coin">Coins Collected: {coins}</div>
             <div className="text-lg mb-2">Level Reached: {level}</div>
-            {score > highScore && (
+            <div className="text-lg mb-2 text-muted-foreground">Seed: {formatSeed(seed)}</div>
+            {isNewHighScore && (
               <div className="text-2xl mb-4 text-game-success">🎉 New High Score! 🎉</div>
             )}
+            {pendingEntry && (
+              <div className="flex gap-2 mb-6 justify-center">
+                <Input
+                  value={playerName}
+                  onChange={(event) => setPlayerName(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') saveLeaderboardEntry();
+                  }}
+                  placeholder="Your name"
+                  maxLength={24}
+                  className="w-56"
+                />
+                <Button onClick={saveLeaderboardEntry} variant="outline">
+                  Save to Leaderboard
+                </Button>
+              </div>
+            )}
             <div className="flex gap-4">
-              <Button onClick={startGame} className="game-button">
+              <Button onClick={() => startGame()} className="game-button">
                 Try Again
               </Button>
+              <Button onClick={() => startGame(seed)} variant="outline" className="game-button">
+                Replay Seed
+              </Button>
+            </div>
+            <div className="flex gap-4 mt-4">
+              <Button onClick={() => startReplay(recordingRef.current)} variant="outline" className="game-button">
+                Watch Replay
+              </Button>
+              <Button onClick={() => downloadReplay(recordingRef.current)} variant="outline" className="game-button">
+                Export Replay
+              </Button>
               <Button onClick={resetGame} variant="outline" className="game-button">
                 Main Menu
               </Button>
             </div>
           </div>
         )}
+
+        {gameState === 'leaderboard' && (
+          <Leaderboard
+            entries={leaderboardEntries}
+            highlightId={highlightedEntryId}
+            onClose={resetGame}
+          />
+        )}
+
+        {gameState === 'achievements' && (
+          <AchievementGallery progress={profile.achievements} onClose={resetGame} />
+        )}
+
+        <KeyBindingsDialog
+          open={isControlsOpen}
+          bindings={profile.settings.keyBindings}
+          onOpenChange={setIsControlsOpen}
+          onSave={(keyBindings) => updateSettings({ keyBindings })}
+        />
+
+        <SettingsDialog
+          open={isSettingsOpen}
+          settings={profile.settings}
+          showSwipe={isMobile}
+          showGamepad={gamepadsConnected > 0}
+          onOpenChange={setIsSettingsOpen}
+          onChange={updateSettings}
+        />
+
+        {gameState === 'playing' && isMobile && (
+          <TouchControls onAction={dispatchAction} onRelease={releaseAction} onPause={() => dispatchAction('pause')} />
+        )}
+
+        {gameState === 'replay' && replayRef.current && (
+          <ReplayControls
+            frame={replayFrame}
+            length={replayRef.current.length}
+            isPlaying={isReplayPlaying}
+            onTogglePlay={toggleReplayPlayback}
+            onScrub={scrubReplay}
+            onExit={resetGame}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useGamepadCapture } from '@/hooks/use-gamepads';
+import {
+  DEFAULT_GAMEPAD_BINDINGS,
+  gamepadButtonName,
+  rebindGamepadButton,
+  type GamepadBindings
+} from '@/lib/game/gamepad';
+import { ACTION_LABELS, INPUT_ACTIONS, type InputAction } from '@/lib/game/input';
+
+interface GamepadSettingsProps {
+  bindings: GamepadBindings;
+  onChange: (bindings: GamepadBindings) => void;
+}
+
+export const GamepadSettings = ({ bindings, onChange }: GamepadSettingsProps) => {
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useGamepadCapture(listening !== null, (button) => {
+    if (listening) onChange(rebindGamepadButton(bindings, listening, button));
+    setListening(null);
+  });
+
+  return (
+    <div className="w-full max-w-md mb-6 rounded-lg bg-black/60 p-4">
+      <div className="text-lg font-bold mb-2">Controller</div>
+      {INPUT_ACTIONS.map(action => (
+        <div key={action} className="flex items-center justify-between gap-4 py-1">
+          <span>{ACTION_LABELS[action]}</span>
+          <Button
+            onClick={() => setListening(listening === action ? null : action)}
+            variant="outline"
+            size="sm"
+            className="w-48"
+          >
+            {listening === action
+              ? 'Press a button…'
+              : bindings[action].map(gamepadButtonName).join(' / ') || 'Unbound'}
+          </Button>
+        </div>
+      ))}
+      <Button onClick={() => onChange(DEFAULT_GAMEPAD_BINDINGS)} variant="ghost" size="sm" className="mt-2">
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
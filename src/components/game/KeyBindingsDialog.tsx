@@ -0,0 +1,181 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  ACTION_LABELS,
+  DEFAULT_KEY_BINDINGS,
+  findKeyConflicts,
+  INPUT_ACTIONS,
+  keyLabel,
+  KEYS_PER_ACTION,
+  normalizeKey,
+  type KeyBindings
+} from '@/lib/game/input';
+
+interface KeyBindingsDialogProps {
+  open: boolean;
+  bindings: KeyBindings;
+  onOpenChange: (open: boolean) => void;
+  onSave: (bindings: KeyBindings) => void;
+}
+
+// Every action gets a fixed row of slots; an empty string is an unused slot
+const slots = z.array(z.string()).length(KEYS_PER_ACTION);
+
+const bindingsSchema = z
+  .object({ moveLeft: slots, moveRight: slots, jump: slots, slide: slots, pause: slots })
+  .superRefine((bindings, context) => {
+    for (const action of INPUT_ACTIONS) {
+      if (bindings[action].every(key => !key)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: [action, 0], message: 'Needs at least one key' });
+      }
+    }
+    for (const { key, action, slot, takenBy } of findKeyConflicts(bindings as KeyBindings)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [action, slot],
+        message: `${keyLabel(key)} is already bound to ${ACTION_LABELS[takenBy]}`
+      });
+    }
+  });
+
+type BindingsForm = z.infer<typeof bindingsSchema>;
+
+const toForm = (bindings: KeyBindings): BindingsForm => {
+  const form = {} as BindingsForm;
+  for (const action of INPUT_ACTIONS) {
+    form[action] = Array.from({ length: KEYS_PER_ACTION }, (_, slot) => bindings[action][slot] ?? '');
+  }
+  return form;
+};
+
+const fromForm = (form: BindingsForm): KeyBindings => {
+  const bindings = {} as KeyBindings;
+  for (const action of INPUT_ACTIONS) {
+    bindings[action] = form[action].filter(Boolean);
+  }
+  return bindings;
+};
+
+export const KeyBindingsDialog = ({ open, bindings, onOpenChange, onSave }: KeyBindingsDialogProps) => {
+  const form = useForm<BindingsForm>({
+    resolver: zodResolver(bindingsSchema),
+    defaultValues: toForm(bindings),
+    mode: 'onChange'
+  });
+
+  // Start from the saved bindings every time the dialog opens
+  useEffect(() => {
+    if (open) form.reset(toForm(bindings));
+  }, [open, bindings, form]);
+
+  const submit = (values: BindingsForm) => {
+    onSave(fromForm(values));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-lg"
+        onEscapeKeyDown={(event) => {
+          // Escape is a bindable key while a slot has focus
+          if (event.target instanceof HTMLElement && event.target.hasAttribute('data-key-capture')) {
+            event.preventDefault();
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard Controls</DialogTitle>
+          <DialogDescription>
+            Click a slot and press the key to bind. Clear a slot with its × button.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-3">
+            {INPUT_ACTIONS.map(action => (
+              <div key={action} className="grid grid-cols-[6rem_1fr] items-start gap-3">
+                <span className="pt-2 text-sm font-medium">{ACTION_LABELS[action]}</span>
+                <div className="grid grid-cols-3 gap-2">
+                  {Array.from({ length: KEYS_PER_ACTION }, (_, slot) => (
+                    <FormField
+                      key={slot}
+                      control={form.control}
+                      name={`${action}.${slot}`}
+                      render={({ field }) => (
+                        <FormItem className="space-y-1">
+                          <div className="flex">
+                            <FormControl>
+                              <Input
+                                readOnly
+                                data-key-capture
+                                ref={field.ref}
+                                name={field.name}
+                                onBlur={field.onBlur}
+                                value={field.value ? keyLabel(field.value) : ''}
+                                placeholder="—"
+                                className="text-center"
+                                onKeyDown={(event) => {
+                                  // Tab still moves between slots
+                                  if (event.key === 'Tab') return;
+                                  event.preventDefault();
+                                  field.onChange(normalizeKey(event.key));
+                                  // A new key can clash with any other slot, not just this one
+                                  void form.trigger();
+                                }}
+                              />
+                            </FormControl>
+                            {field.value && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Clear key"
+                                onClick={() => {
+                                  field.onChange('');
+                                  void form.trigger();
+                                }}
+                              >
+                                ×
+                              </Button>
+                            )}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <DialogFooter className="gap-2 pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => form.reset(toForm(DEFAULT_KEY_BINDINGS), { keepDefaultValues: true })}
+              >
+                Reset to defaults
+              </Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
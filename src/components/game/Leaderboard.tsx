@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { sortLeaderboard, type LeaderboardColumn, type LeaderboardEntry } from '@/lib/game/leaderboard';
+import { formatSeed } from '@/lib/game/random';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  highlightId?: string;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: LeaderboardColumn; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'distance', label: 'Distance' },
+  { key: 'coins', label: 'Coins' },
+  { key: 'level', label: 'Level' },
+  { key: 'seed', label: 'Seed' },
+  { key: 'date', label: 'Date' },
+  { key: 'duration', label: 'Time' }
+];
+
+const formatDuration = (milliseconds: number) => {
+  const seconds = Math.floor(milliseconds / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatCell = (entry: LeaderboardEntry, column: LeaderboardColumn) => {
+  switch (column) {
+    case 'distance':
+      return `${entry.distance}m`;
+    case 'seed':
+      return formatSeed(entry.seed);
+    case 'date':
+      return new Date(entry.date).toLocaleDateString();
+    case 'duration':
+      return formatDuration(entry.duration);
+    default:
+      return entry[column];
+  }
+};
+
+export const Leaderboard = ({ entries, highlightId, onClose }: LeaderboardProps) => {
+  const [sortColumn, setSortColumn] = useState<LeaderboardColumn>('distance');
+  const [descending, setDescending] = useState(true);
+
+  const sortBy = (column: LeaderboardColumn) => {
+    if (column === sortColumn) {
+      setDescending(!descending);
+    } else {
+      setSortColumn(column);
+      // Text columns read best A to Z, numbers best highest first
+      setDescending(column !== 'name');
+    }
+  };
+
+  const rows = sortLeaderboard(entries, sortColumn, descending);
+
+  return (
+    <div className="game-menu">
+      <h2 className="text-4xl font-bold mb-6">Leaderboard</h2>
+      <div className="w-full max-w-4xl mb-6 rounded-lg bg-black/60 p-4">
+        {rows.length === 0 ? (
+          <p className="text-lg text-muted-foreground text-center">No runs yet. Go set a record!</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                {COLUMNS.map(({ key, label }) => (
+                  <TableHead key={key}>
+                    <button type="button" onClick={() => sortBy(key)} className="font-bold hover:text-foreground">
+                      {label}
+                      {sortColumn === key && (descending ? ' ▼' : ' ▲')}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(entry => (
+                <TableRow key={entry.id} data-state={entry.id === highlightId ? 'selected' : undefined}>
+                  <TableCell>{entries.indexOf(entry) + 1}</TableCell>
+                  {COLUMNS.map(({ key }) => (
+                    <TableCell key={key}>{formatCell(entry, key)}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+      <Button onClick={onClose} className="game-button">
+        Back
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+
+interface ReplayControlsProps {
+  frame: number;
+  length: number;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onScrub: (frame: number) => void;
+  onExit: () => void;
+}
+
+export const ReplayControls = ({ frame, length, isPlaying, onTogglePlay, onScrub, onExit }: ReplayControlsProps) => {
+  return (
+    <div className="game-replay-controls">
+      <div className="flex items-center gap-4">
+        <Button onClick={onTogglePlay} className="game-button">
+          {isPlaying ? 'Pause' : 'Play'}
+        </Button>
+        <Slider
+          value={[frame]}
+          min={0}
+          max={length}
+          step={1}
+          onValueChange={([value]) => onScrub(value)}
+          className="flex-1"
+        />
+        <div className="text-sm tabular-nums w-28 text-right">
+          {frame} / {length}
+        </div>
+        <Button onClick={onExit} variant="outline" className="game-button">
+          Exit Replay
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { GamepadSettings } from './GamepadSettings';
+import { VOLUME_CHANNELS, VOLUME_LABELS } from '@/lib/game/audio/volume';
+import { MAX_SWIPE_DEAD_ZONE } from '@/lib/game/gestures';
+import type { ProfileSettings } from '@/lib/game/profile';
+import { MAX_FOV, MIN_FOV } from '@/lib/game/render/camera';
+import { isRenderQuality, QUALITY_LABELS, RENDER_QUALITIES } from '@/lib/game/render/quality';
+import { BACKEND_LABELS, isRendererBackend, RENDERER_BACKENDS } from '@/lib/game/render/renderer';
+
+interface SettingsDialogProps {
+  open: boolean;
+  settings: ProfileSettings;
+  showSwipe: boolean;
+  showGamepad: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (settings: Partial<ProfileSettings>) => void;
+}
+
+// Changes apply as they are made, so players can hear and see each one
+export const SettingsDialog = ({ open, settings, showSwipe, showGamepad, onOpenChange, onChange }: SettingsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Settings</DialogTitle>
+        <DialogDescription>Sound, graphics and controller options.</DialogDescription>
+      </DialogHeader>
+      <div className="space-y-6">
+        <div>
+          {VOLUME_CHANNELS.map(channel => (
+            <div key={channel} className="mb-3">
+              <div className="text-sm text-muted-foreground mb-2">
+                {VOLUME_LABELS[channel]}: {Math.round(settings.volumes[channel] * 100)}%
+              </div>
+              <Slider
+                value={[settings.volumes[channel] * 100]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([value]) => onChange({ volumes: { ...settings.volumes, [channel]: value / 100 } })}
+              />
+            </div>
+          ))}
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground mb-2">Graphics quality</div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={settings.renderQuality}
+            onValueChange={(value) => {
+              if (isRenderQuality(value)) onChange({ renderQuality: value });
+            }}
+          >
+            {RENDER_QUALITIES.map(quality => (
+              <ToggleGroupItem key={quality} value={quality}>
+                {QUALITY_LABELS[quality]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground mb-2">Renderer</div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={settings.renderer}
+            onValueChange={(value) => {
+              if (isRendererBackend(value)) onChange({ renderer: value });
+            }}
+          >
+            {RENDERER_BACKENDS.map(backend => (
+              <ToggleGroupItem key={backend} value={backend}>
+                {BACKEND_LABELS[backend]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div>
+          <div className="text-sm text-muted-foreground mb-2">Field of view: {settings.fov}°</div>
+          <Slider
+            value={[settings.fov]}
+            min={MIN_FOV}
+            max={MAX_FOV}
+            step={5}
+            onValueChange={([value]) => onChange({ fov: value })}
+          />
+        </div>
+        {showSwipe && (
+          <div>
+            <div className="text-sm text-muted-foreground mb-2">
+              Swipe distance: {settings.swipeDeadZone}px
+            </div>
+            <Slider
+              value={[settings.swipeDeadZone]}
+              min={10}
+              max={MAX_SWIPE_DEAD_ZONE}
+              step={5}
+              onValueChange={([value]) => onChange({ swipeDeadZone: value })}
+            />
+          </div>
+        )}
+        {showGamepad && (
+          <GamepadSettings
+            bindings={settings.gamepadBindings}
+            onChange={(gamepadBindings) => onChange({ gamepadBindings })}
+          />
+        )}
+      </div>
+      <DialogFooter>
+        <Button onClick={() => onOpenChange(false)}>Done</Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
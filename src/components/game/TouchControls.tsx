@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import type { InputAction } from '@/lib/game/input';
+
+interface TouchControlsProps {
+  onAction: (action: InputAction) => void;
+  onRelease: (action: InputAction) => void;
+  onPause: () => void;
+}
+
+const BUTTONS: { action: InputAction; label: string; symbol: string }[] = [
+  { action: 'moveLeft', label: 'Move left', symbol: '◀' },
+  { action: 'jump', label: 'Jump', symbol: '▲' },
+  { action: 'slide', label: 'Slide', symbol: '▼' },
+  { action: 'moveRight', label: 'Move right', symbol: '▶' }
+];
+
+// Fallback for players who prefer buttons to swiping on the canvas
+export const TouchControls = ({ onAction, onRelease, onPause }: TouchControlsProps) => {
+  return (
+    <>
+      <Button onPointerDown={onPause} variant="outline" size="icon" aria-label="Pause" className="game-touch-pause">
+        ⏸
+      </Button>
+      <div className="game-touch-controls">
+        {BUTTONS.map(({ action, label, symbol }) => (
+          <Button
+            key={action}
+            onPointerDown={(event) => {
+              event.preventDefault();
+              onAction(action);
+            }}
+            onPointerUp={() => onRelease(action)}
+            onPointerLeave={(event) => {
+              // Sliding a finger off the button lets go of it too
+              if (event.buttons > 0) onRelease(action);
+            }}
+            variant="outline"
+            aria-label={label}
+            className="game-touch-button"
+          >
+            {symbol}
+          </Button>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,23 @@
+import * as React from "react"
+
+import { createAudioEngine, type AudioEngine } from "@/lib/game/audio/engine"
+import type { AudioVolumes } from "@/lib/game/audio/volume"
+
+// The game's audio engine, or null before it is created or where Web Audio is missing
+export function useAudio(volumes: AudioVolumes) {
+  const [engine, setEngine] = React.useState<AudioEngine | null>(null)
+  const volumesRef = React.useRef(volumes)
+  volumesRef.current = volumes
+
+  React.useEffect(() => {
+    const created = createAudioEngine(volumesRef.current)
+    setEngine(created)
+    return () => created?.dispose()
+  }, [])
+
+  React.useEffect(() => {
+    engine?.setVolumes(volumes)
+  }, [engine, volumes])
+
+  return engine
+}
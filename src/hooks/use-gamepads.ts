@@ -0,0 +1,117 @@
+import * as React from "react"
+
+import { useToast } from "@/hooks/use-toast"
+import {
+  actionsForButtons,
+  CONFIRM_BUTTONS,
+  newlyPressed,
+  newlyReleased,
+  readPressedButtons,
+  type GamepadBindings,
+} from "@/lib/game/gamepad"
+import type { InputAction } from "@/lib/game/input"
+
+interface GamepadOptions {
+  enabled: boolean
+  bindings: GamepadBindings
+  onAction: (action: InputAction) => void
+  onRelease: (action: InputAction) => void
+  onConfirm: () => void // a confirm button pressed while not enabled, e.g. on a menu
+}
+
+const connectedPads = () =>
+  navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null)
+
+type ButtonChanges = (pressed: number[], released: number[]) => void
+
+// Calls back once per animation frame with every button that went down or up on any pad
+function usePadButtons(active: boolean, onChange: ButtonChanges) {
+  const onChangeRef = React.useRef(onChange)
+  onChangeRef.current = onChange
+
+  React.useEffect(() => {
+    if (!active || !("getGamepads" in navigator)) return
+
+    // Buttons already held when polling starts should not fire
+    const previous = new Map<number, Set<number>>(
+      connectedPads().map((pad) => [pad.index, readPressedButtons(pad)])
+    )
+    let frame = requestAnimationFrame(function poll() {
+      const pressed: number[] = []
+      const released: number[] = []
+      const pads = connectedPads()
+      for (const pad of pads) {
+        const current = readPressedButtons(pad)
+        pressed.push(...newlyPressed(current, previous.get(pad.index)))
+        released.push(...newlyReleased(current, previous.get(pad.index)))
+        previous.set(pad.index, current)
+      }
+      // A pad unplugged mid-press lets go of everything it held
+      for (const [index, buttons] of previous) {
+        if (pads.some((pad) => pad.index === index)) continue
+        released.push(...buttons)
+        previous.delete(index)
+      }
+      if (pressed.length > 0 || released.length > 0) {
+        onChangeRef.current(pressed, released)
+      }
+      frame = requestAnimationFrame(poll)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [active])
+}
+
+/**
+ * Polls every connected controller and, while enabled, turns presses and
+ * releases into actions; otherwise only confirm presses are reported.
+ * Connections are announced with a toast whatever the state.
+ */
+export function useGamepads({ enabled, bindings, onAction, onRelease, onConfirm }: GamepadOptions) {
+  const [count, setCount] = React.useState(0)
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    if (!("getGamepads" in navigator)) return
+
+    const onConnected = (event: GamepadEvent) => {
+      setCount(connectedPads().length)
+      toast({
+        title: "Controller connected",
+        description: event.gamepad.id,
+      })
+    }
+    const onDisconnected = (event: GamepadEvent) => {
+      setCount(connectedPads().length)
+      toast({
+        title: "Controller disconnected",
+        description: event.gamepad.id,
+      })
+    }
+
+    setCount(connectedPads().length)
+    window.addEventListener("gamepadconnected", onConnected)
+    window.addEventListener("gamepaddisconnected", onDisconnected)
+    return () => {
+      window.removeEventListener("gamepadconnected", onConnected)
+      window.removeEventListener("gamepaddisconnected", onDisconnected)
+    }
+  }, [toast])
+
+  usePadButtons(count > 0, (pressed, released) => {
+    if (!enabled) {
+      if (pressed.some((button) => CONFIRM_BUTTONS.includes(button))) onConfirm()
+      return
+    }
+    actionsForButtons(pressed, bindings).forEach(onAction)
+    actionsForButtons(released, bindings).forEach(onRelease)
+  })
+
+  return { connected: count }
+}
+
+// Waits for the next button pressed on any pad, for rebinding
+export function useGamepadCapture(active: boolean, onCapture: (button: number) => void) {
+  usePadButtons(active, (pressed) => {
+    if (pressed.length > 0) onCapture(pressed[0])
+  })
+}
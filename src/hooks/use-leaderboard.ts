@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import {
+  addLeaderboardEntry,
+  loadLeaderboard,
+  saveLeaderboard,
+  type LeaderboardEntry,
+} from "@/lib/game/leaderboard"
+
+export function useLeaderboard() {
+  const [entries, setEntries] = React.useState<LeaderboardEntry[]>(() => loadLeaderboard())
+
+  React.useEffect(() => {
+    saveLeaderboard(entries)
+  }, [entries])
+
+  const addEntry = React.useCallback((entry: LeaderboardEntry) => {
+    setEntries((current) => addLeaderboardEntry(current, entry))
+  }, [])
+
+  return { entries, addEntry }
+}
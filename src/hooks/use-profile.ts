@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import type { AchievementProgress } from "@/lib/game/achievements"
+import {
+  loadProfile,
+  recordRun as addRun,
+  saveProfile,
+  type Profile,
+  type ProfileSettings,
+  type RunSummary,
+} from "@/lib/game/profile"
+
+export function useProfile() {
+  const [profile, setProfile] = React.useState<Profile>(() => loadProfile())
+
+  React.useEffect(() => {
+    saveProfile(profile)
+  }, [profile])
+
+  const recordRun = React.useCallback((run: RunSummary) => {
+    setProfile((current) => addRun(current, run))
+  }, [])
+
+  const updateSettings = React.useCallback((settings: Partial<ProfileSettings>) => {
+    setProfile((current) => ({
+      ...current,
+      settings: { ...current.settings, ...settings },
+    }))
+  }, [])
+
+  const updateAchievements = React.useCallback((achievements: AchievementProgress) => {
+    setProfile((current) => ({ ...current, achievements }))
+  }, [])
+
+  return { profile, recordRun, updateSettings, updateAchievements }
+}
@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { ATLAS_URL, loadAtlas, type SpriteAtlas } from "@/lib/game/render/atlas"
+
+// The loaded atlas, or null while loading or if it failed and shapes are drawn instead
+export function useSpriteAtlas(url: string = ATLAS_URL) {
+  const [atlas, setAtlas] = React.useState<SpriteAtlas | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    loadAtlas(url)
+      .then((loaded) => {
+        if (!cancelled) setAtlas(loaded)
+      })
+      .catch((error) => {
+        console.warn("Sprite atlas unavailable, drawing procedural shapes:", error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  return atlas
+}
@@ -0,0 +1,116 @@
+import * as React from "react"
+
+import {
+  classifySwipe,
+  TAP_MAX_DURATION,
+  TAP_MAX_MOVEMENT,
+} from "@/lib/game/gestures"
+import type { InputAction } from "@/lib/game/input"
+
+interface SwipeControlsOptions {
+  enabled: boolean
+  deadZone: number
+  onAction: (action: InputAction) => void
+  onRelease: (action: InputAction) => void
+  onPause: () => void
+}
+
+interface Gesture {
+  startX: number
+  startY: number
+  startTime: number
+  maxTouches: number
+  action: InputAction | null // the swipe this touch made, released when it lifts
+}
+
+// Swipes fire as soon as they leave the dead zone; a two-finger tap pauses
+export function useSwipeControls(
+  target: React.RefObject<HTMLElement>,
+  { enabled, deadZone, ...callbacks }: SwipeControlsOptions
+) {
+  const gestureRef = React.useRef<Gesture | null>(null)
+  // Callers pass fresh callbacks each render; reading them here keeps the listeners attached
+  const callbacksRef = React.useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  React.useEffect(() => {
+    const element = target.current
+    if (!element || !enabled) return
+
+    const onTouchStart = (event: TouchEvent) => {
+      event.preventDefault()
+      const touch = event.touches[0]
+      const gesture = gestureRef.current
+
+      if (gesture && event.touches.length > 1) {
+        gesture.maxTouches = Math.max(gesture.maxTouches, event.touches.length)
+        return
+      }
+
+      gestureRef.current = {
+        startX: touch.clientX,
+        startY: touch.clientY,
+        startTime: event.timeStamp,
+        maxTouches: event.touches.length,
+        action: null,
+      }
+    }
+
+    const onTouchMove = (event: TouchEvent) => {
+      event.preventDefault()
+      const gesture = gestureRef.current
+      if (!gesture || gesture.action || gesture.maxTouches > 1) return
+
+      const touch = event.touches[0]
+      const action = classifySwipe(
+        touch.clientX - gesture.startX,
+        touch.clientY - gesture.startY,
+        deadZone
+      )
+      if (action) {
+        gesture.action = action
+        callbacksRef.current.onAction(action)
+      }
+    }
+
+    const onTouchEnd = (event: TouchEvent) => {
+      const gesture = gestureRef.current
+      if (!gesture || event.touches.length > 0) return
+      gestureRef.current = null
+      if (gesture.action) {
+        callbacksRef.current.onRelease(gesture.action)
+        return
+      }
+
+      const touch = event.changedTouches[0]
+      const movement = Math.hypot(
+        touch.clientX - gesture.startX,
+        touch.clientY - gesture.startY
+      )
+      if (
+        gesture.maxTouches > 1 &&
+        movement <= TAP_MAX_MOVEMENT &&
+        event.timeStamp - gesture.startTime <= TAP_MAX_DURATION
+      ) {
+        callbacksRef.current.onPause()
+      }
+    }
+
+    const onTouchCancel = () => {
+      const gesture = gestureRef.current
+      gestureRef.current = null
+      if (gesture?.action) callbacksRef.current.onRelease(gesture.action)
+    }
+
+    element.addEventListener("touchstart", onTouchStart, { passive: false })
+    element.addEventListener("touchmove", onTouchMove, { passive: false })
+    element.addEventListener("touchend", onTouchEnd)
+    element.addEventListener("touchcancel", onTouchCancel)
+    return () => {
+      element.removeEventListener("touchstart", onTouchStart)
+      element.removeEventListener("touchmove", onTouchMove)
+      element.removeEventListener("touchend", onTouchEnd)
+      element.removeEventListener("touchcancel", onTouchCancel)
+    }
+  }, [target, enabled, deadZone])
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+import {
+  DEFAULT_VIEWPORT,
+  fitViewport,
+  sameViewport,
+  type Viewport,
+} from "@/lib/game/render/viewport"
+
+// Fits the game view inside an element, leaving `margin` CSS pixels around it for the canvas's border
+export function useViewport(container: React.RefObject<HTMLElement>, margin: number = 0) {
+  const [viewport, setViewport] = React.useState<Viewport>(DEFAULT_VIEWPORT)
+
+  React.useEffect(() => {
+    const element = container.current
+    if (!element) return
+
+    let size: { width: number; height: number } | null = null
+    const refit = () => {
+      if (!size) return
+      const next = fitViewport(size.width - margin, size.height - margin, window.devicePixelRatio)
+      setViewport((current) => (sameViewport(current, next) ? current : next))
+    }
+
+    const observer = new ResizeObserver(([entry]) => {
+      size = entry.contentRect
+      refit()
+    })
+    observer.observe(element)
+
+    // Zooming or moving to another screen changes the pixel density without resizing anything
+    let density = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`)
+    const onDensityChange = () => {
+      density.removeEventListener("change", onDensityChange)
+      density = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`)
+      density.addEventListener("change", onDensityChange)
+      refit()
+    }
+    density.addEventListener("change", onDensityChange)
+
+    return () => {
+      observer.disconnect()
+      density.removeEventListener("change", onDensityChange)
+    }
+  }, [container, margin])
+
+  return viewport
+}
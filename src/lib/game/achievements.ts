@@ -0,0 +1,191 @@
+import { hasPowerUp } from './simulation';
+import type { GameEvent, SimulationState } from './types';
+
+// What the current run has done so far, for achievements about a single run
+export interface RunStats {
+  distance: number;
+  level: number;
+  lastDamageAt: number; // distance of the last hit that took health
+  shieldedLevel: number; // highest level reached with a shield up
+}
+
+interface AchievementInfo {
+  id: string;
+  title: string;
+  description: string;
+  goal: number;
+  unit?: string;
+}
+
+/**
+ * Lifetime achievements add up what `count` gives each event across every run.
+ * Run achievements keep the best `measure` any single run has reached.
+ */
+export type Achievement = AchievementInfo & (
+  | { scope: 'lifetime'; count: (event: GameEvent) => number }
+  | { scope: 'run'; measure: (run: RunStats) => number }
+);
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'warming-up',
+    title: 'Warming Up',
+    description: 'Run 1000 m in one run',
+    goal: 1000,
+    unit: 'm',
+    scope: 'run',
+    measure: run => run.distance
+  },
+  {
+    id: 'marathon',
+    title: 'Marathon',
+    description: 'Run 5000 m in one run',
+    goal: 5000,
+    unit: 'm',
+    scope: 'run',
+    measure: run => run.distance
+  },
+  {
+    id: 'untouchable',
+    title: 'Untouchable',
+    description: 'Run 1000 m without taking damage',
+    goal: 1000,
+    unit: 'm',
+    scope: 'run',
+    measure: run => run.distance - run.lastDamageAt
+  },
+  {
+    id: 'climber',
+    title: 'Climber',
+    description: 'Reach level 30',
+    goal: 30,
+    scope: 'run',
+    measure: run => run.level
+  },
+  {
+    id: 'shield-bearer',
+    title: 'Shield Bearer',
+    description: 'Reach level 10 with a shield up',
+    goal: 10,
+    scope: 'run',
+    measure: run => run.shieldedLevel
+  },
+  {
+    id: 'diamond-hoard',
+    title: 'Diamond Hoard',
+    description: 'Collect 50 diamonds',
+    goal: 50,
+    scope: 'lifetime',
+    count: event => (event.type === 'coinCollected' && event.coin === 'diamond' ? 1 : 0)
+  },
+  {
+    id: 'piggy-bank',
+    title: 'Piggy Bank',
+    description: 'Collect 2000 points of coins',
+    goal: 2000,
+    scope: 'lifetime',
+    count: event => (event.type === 'coinCollected' ? event.value : 0)
+  },
+  {
+    id: 'wrecking-ball',
+    title: 'Wrecking Ball',
+    description: 'Smash through 25 obstacles at speed',
+    goal: 25,
+    scope: 'lifetime',
+    count: event => (event.type === 'obstacleHit' && event.outcome === 'smashed' ? 1 : 0)
+  },
+  {
+    id: 'power-hungry',
+    title: 'Power Hungry',
+    description: 'Pick up 100 power-ups',
+    goal: 100,
+    scope: 'lifetime',
+    count: event => (event.type === 'powerUpStarted' ? 1 : 0)
+  },
+  {
+    id: 'frequent-flyer',
+    title: 'Frequent Flyer',
+    description: 'Jump 1000 times',
+    goal: 1000,
+    scope: 'lifetime',
+    count: event => (event.type === 'jumped' ? 1 : 0)
+  }
+];
+
+export interface AchievementRecord {
+  value: number;
+  unlockedAt: string | null; // ISO date the goal was first met
+}
+
+// Keyed by achievement id; achievements not yet started have no record
+export type AchievementProgress = Record<string, AchievementRecord>;
+
+export const createRunStats = (): RunStats => ({ distance: 0, level: 1, lastDamageAt: 0, shieldedLevel: 0 });
+
+const trackRun = (run: RunStats, event: GameEvent, state: SimulationState): RunStats => {
+  const next = { ...run, distance: state.score, level: state.level };
+  if (event.type === 'obstacleHit' && event.outcome === 'damaged') {
+    next.lastDamageAt = state.score;
+  }
+  if (event.type === 'levelUp' && hasPowerUp(state.player, 'shield')) {
+    next.shieldedLevel = Math.max(next.shieldedLevel, event.level);
+  }
+  return next;
+};
+
+export interface AchievementUpdate {
+  progress: AchievementProgress;
+  run: RunStats;
+  unlocked: Achievement[];
+}
+
+/**
+ * Applies one event of a live run, read alongside the state that emitted it.
+ * Run achievements are only checked when an event arrives, which in practice
+ * is every few steps, and always at the end of a run.
+ */
+export const applyAchievementEvent = (
+  progress: AchievementProgress,
+  run: RunStats,
+  event: GameEvent,
+  state: SimulationState,
+  now: Date = new Date()
+): AchievementUpdate => {
+  const nextRun = trackRun(run, event, state);
+  const nextProgress = { ...progress };
+  const unlocked: Achievement[] = [];
+
+  for (const achievement of ACHIEVEMENTS) {
+    const record = progress[achievement.id] ?? { value: 0, unlockedAt: null };
+    const value = achievement.scope === 'lifetime'
+      ? record.value + achievement.count(event)
+      : Math.max(record.value, achievement.measure(nextRun));
+    if (value === record.value) continue;
+
+    const justUnlocked = record.unlockedAt === null && value >= achievement.goal;
+    nextProgress[achievement.id] = { value, unlockedAt: justUnlocked ? now.toISOString() : record.unlockedAt };
+    if (justUnlocked) unlocked.push(achievement);
+  }
+  return { progress: nextProgress, run: nextRun, unlocked };
+};
+
+// How far along an achievement is, from 0 to 1
+export const achievementFraction = (progress: AchievementProgress, achievement: Achievement) =>
+  Math.min((progress[achievement.id]?.value ?? 0) / achievement.goal, 1);
+
+export const sanitizeAchievements = (value: unknown): AchievementProgress => {
+  const progress: AchievementProgress = {};
+  if (!value || typeof value !== 'object') return progress;
+
+  for (const achievement of ACHIEVEMENTS) {
+    const record = (value as Record<string, unknown>)[achievement.id];
+    if (!record || typeof record !== 'object') continue;
+    const { value: amount, unlockedAt } = record as Record<string, unknown>;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) continue;
+    progress[achievement.id] = {
+      value: amount,
+      unlockedAt: typeof unlockedAt === 'string' && !Number.isNaN(Date.parse(unlockedAt)) ? unlockedAt : null
+    };
+  }
+  return progress;
+};
@@ -0,0 +1,36 @@
+import type { CoinType, GameEvent, PowerUpType } from '../types';
+
+// Something that makes a sound
+export type SoundCue =
+  | { kind: 'jump' }
+  | { kind: 'slide' }
+  | { kind: 'laneChange' }
+  | { kind: 'coin'; coin: CoinType }
+  | { kind: 'powerUp'; powerUp: PowerUpType }
+  | { kind: 'powerUpEnd' }
+  | { kind: 'damage' }
+  | { kind: 'gameOver' };
+
+// The sound a gameplay event makes, if any
+export const cueForEvent = (event: GameEvent): SoundCue | null => {
+  switch (event.type) {
+    case 'jumped':
+      return { kind: 'jump' };
+    case 'slid':
+      return { kind: 'slide' };
+    case 'laneChanged':
+      return { kind: 'laneChange' };
+    case 'coinCollected':
+      return { kind: 'coin', coin: event.coin };
+    case 'powerUpStarted':
+      return { kind: 'powerUp', powerUp: event.powerUp };
+    case 'powerUpEnded':
+      return { kind: 'powerUpEnd' };
+    case 'obstacleHit':
+      return event.outcome === 'damaged' ? { kind: 'damage' } : null;
+    case 'runEnded':
+      return { kind: 'gameOver' };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,64 @@
+import type { SoundCue } from './cues';
+import { createMusic } from './music';
+import { playCue } from './sounds';
+import { volumeGain, type AudioVolumes } from './volume';
+
+// Gains change over this many seconds so slider drags do not click
+const VOLUME_SMOOTHING = 0.02;
+
+export interface AudioEngine {
+  // Browsers keep audio silent until a user gesture, so call this from one before anything should be heard
+  resume: () => void;
+  play: (cue: SoundCue) => void;
+  startMusic: () => void;
+  stopMusic: () => void;
+  setLevel: (level: number) => void;
+  setVolumes: (volumes: AudioVolumes) => void;
+  dispose: () => void;
+}
+
+/**
+ * Sets up the mixer: music and effects each have a gain feeding a master gain,
+ * which a compressor keeps from clipping when many sounds overlap. Returns
+ * null where Web Audio is unavailable, in which case the game runs silent.
+ */
+export const createAudioEngine = (volumes: AudioVolumes): AudioEngine | null => {
+  if (typeof AudioContext === 'undefined') return null;
+
+  const ctx = new AudioContext();
+  const compressor = ctx.createDynamicsCompressor();
+  const master = ctx.createGain();
+  const musicBus = ctx.createGain();
+  const sfxBus = ctx.createGain();
+  musicBus.connect(master);
+  sfxBus.connect(master);
+  master.connect(compressor).connect(ctx.destination);
+
+  const music = createMusic(ctx, musicBus);
+
+  const setVolumes = ({ master: masterVolume, music: musicVolume, sfx }: AudioVolumes) => {
+    const now = ctx.currentTime;
+    master.gain.setTargetAtTime(volumeGain(masterVolume), now, VOLUME_SMOOTHING);
+    musicBus.gain.setTargetAtTime(volumeGain(musicVolume), now, VOLUME_SMOOTHING);
+    sfxBus.gain.setTargetAtTime(volumeGain(sfx), now, VOLUME_SMOOTHING);
+  };
+  setVolumes(volumes);
+
+  return {
+    resume: () => {
+      if (ctx.state !== 'suspended') return;
+      ctx.resume().catch((error) => console.warn('Audio could not start:', error));
+    },
+    play: (cue) => {
+      if (ctx.state === 'running') playCue(ctx, sfxBus, cue);
+    },
+    startMusic: music.start,
+    stopMusic: music.stop,
+    setLevel: music.setLevel,
+    setVolumes,
+    dispose: () => {
+      music.stop();
+      ctx.close();
+    }
+  };
+};
@@ -0,0 +1,79 @@
+import { noteFrequency, playNoise, playTone } from './synth';
+
+export const BASE_TEMPO = 112; // beats per minute on level 1
+export const TEMPO_PER_LEVEL = 6;
+export const MAX_TEMPO = 168;
+
+// Each level speeds the music up along with the run, until it tops out
+export const musicTempo = (level: number) => Math.min(BASE_TEMPO + (Math.max(level, 1) - 1) * TEMPO_PER_LEVEL, MAX_TEMPO);
+
+// Chord roots in semitones from A4, one per bar: Am, F, C, G
+const PROGRESSION = [0, -4, 3, -2];
+const CHORD_TONES = [0, 3, 7, 12];
+const STEPS_PER_BEAT = 4;
+const STEPS_PER_BAR = STEPS_PER_BEAT * 4;
+
+// The scheduler wakes this often and queues every note due before the next look ahead
+const SCHEDULE_INTERVAL = 25;
+const SCHEDULE_AHEAD = 0.1;
+
+// Queues the bass, arpeggio and hi-hat notes falling on one sixteenth-note step
+const playStep = (ctx: BaseAudioContext, output: AudioNode, index: number, at: number, stepTime: number) => {
+  const bar = Math.floor(index / STEPS_PER_BAR) % PROGRESSION.length;
+  const beatStep = index % STEPS_PER_BAR;
+  const root = PROGRESSION[bar];
+
+  if (beatStep % STEPS_PER_BEAT === 0) {
+    playTone(ctx, output, { wave: 'triangle', from: noteFrequency(root - 24), at, duration: stepTime * 3, volume: 0.3 });
+  }
+  if (beatStep % 2 === 0) {
+    const tone = CHORD_TONES[(beatStep / 2) % CHORD_TONES.length];
+    playTone(ctx, output, { wave: 'square', from: noteFrequency(root + tone), at, duration: stepTime * 1.5, volume: 0.04 });
+  }
+  if (beatStep % STEPS_PER_BEAT === 2) {
+    playNoise(ctx, output, { filter: 'highpass', from: 7000, at, duration: 0.05, volume: 0.08 });
+  }
+};
+
+export interface Music {
+  start: () => void;
+  stop: () => void;
+  setLevel: (level: number) => void;
+}
+
+/**
+ * A looping chiptune track generated note by note. Notes are queued a little
+ * ahead on the audio clock, so timer jitter never reaches the beat, and a
+ * tempo change takes effect from the next step.
+ */
+export const createMusic = (ctx: BaseAudioContext, output: AudioNode): Music => {
+  let tempo = musicTempo(1);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextStepAt = 0;
+  let index = 0;
+
+  const schedule = () => {
+    while (nextStepAt < ctx.currentTime + SCHEDULE_AHEAD) {
+      const stepTime = 60 / tempo / STEPS_PER_BEAT;
+      playStep(ctx, output, index, nextStepAt, stepTime);
+      nextStepAt += stepTime;
+      index = (index + 1) % (STEPS_PER_BAR * PROGRESSION.length);
+    }
+  };
+
+  const start = () => {
+    if (timer !== null) return;
+    nextStepAt = ctx.currentTime + SCHEDULE_AHEAD;
+    index = 0;
+    timer = setInterval(schedule, SCHEDULE_INTERVAL);
+    schedule();
+  };
+
+  const stop = () => {
+    if (timer === null) return;
+    clearInterval(timer);
+    timer = null;
+  };
+
+  return { start, stop, setLevel: (level) => { tempo = musicTempo(level); } };
+};
@@ -0,0 +1,78 @@
+import type { CoinType, PowerUpType } from '../types';
+import type { SoundCue } from './cues';
+import { noteFrequency, playNoise, playTone } from './synth';
+
+// Notes of each coin's chime in semitones from A4; rarer coins ring longer
+const COIN_CHIMES: Record<CoinType, number[]> = {
+  normal: [14, 19],
+  gold: [14, 19, 23],
+  diamond: [19, 23, 26, 31]
+};
+
+// Root of each power-up's rising arpeggio and the wave it is played on
+const POWER_UP_FANFARES: Record<PowerUpType, { root: number; wave: OscillatorType }> = {
+  shield: { root: 3, wave: 'triangle' },
+  speed: { root: 7, wave: 'sawtooth' },
+  magnet: { root: -2, wave: 'square' },
+  health: { root: 0, wave: 'sine' }
+};
+
+const MAJOR_ARPEGGIO = [0, 4, 7, 12];
+const NOTE_GAP = 0.06;
+
+const playCoin = (ctx: BaseAudioContext, output: AudioNode, coin: CoinType) => {
+  const now = ctx.currentTime;
+  COIN_CHIMES[coin].forEach((semitones, i) => {
+    playTone(ctx, output, { wave: 'triangle', from: noteFrequency(semitones), at: now + i * NOTE_GAP, duration: 0.15, volume: 0.2 });
+  });
+};
+
+const playPowerUp = (ctx: BaseAudioContext, output: AudioNode, powerUp: PowerUpType) => {
+  const now = ctx.currentTime;
+  const { root, wave } = POWER_UP_FANFARES[powerUp];
+  MAJOR_ARPEGGIO.forEach((interval, i) => {
+    playTone(ctx, output, { wave, from: noteFrequency(root + interval), at: now + i * NOTE_GAP, duration: 0.2, volume: 0.12 });
+  });
+};
+
+// Plays the sound for a cue straight away
+export const playCue = (ctx: BaseAudioContext, output: AudioNode, cue: SoundCue) => {
+  const now = ctx.currentTime;
+
+  switch (cue.kind) {
+    case 'jump':
+      playTone(ctx, output, { wave: 'square', from: 320, to: 640, at: now, duration: 0.15, volume: 0.1 });
+      break;
+    case 'slide':
+      playNoise(ctx, output, { filter: 'bandpass', from: 2400, to: 400, at: now, duration: 0.25, volume: 0.25 });
+      break;
+    case 'laneChange':
+      playTone(ctx, output, { wave: 'sine', from: 600, to: 900, at: now, duration: 0.06, volume: 0.1 });
+      break;
+    case 'coin':
+      playCoin(ctx, output, cue.coin);
+      break;
+    case 'powerUp':
+      playPowerUp(ctx, output, cue.powerUp);
+      break;
+    case 'powerUpEnd':
+      playTone(ctx, output, { wave: 'triangle', from: noteFrequency(7), at: now, duration: 0.12, volume: 0.12 });
+      playTone(ctx, output, { wave: 'triangle', from: noteFrequency(0), at: now + 0.1, duration: 0.2, volume: 0.12 });
+      break;
+    case 'damage':
+      playNoise(ctx, output, { filter: 'lowpass', from: 1500, to: 150, at: now, duration: 0.3, volume: 0.4 });
+      playTone(ctx, output, { wave: 'square', from: 180, to: 60, at: now, duration: 0.25, volume: 0.15 });
+      break;
+    case 'gameOver':
+      [0, -2, -5, -12].forEach((semitones, i) => {
+        playTone(ctx, output, {
+          wave: 'sawtooth',
+          from: noteFrequency(semitones - 12),
+          at: now + i * 0.18,
+          duration: i === 3 ? 0.8 : 0.2,
+          volume: 0.12
+        });
+      });
+      break;
+  }
+};
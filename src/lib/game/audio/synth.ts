@@ -0,0 +1,73 @@
+// Quietest gain an envelope ramps to; exponential ramps cannot reach zero
+const SILENT = 0.0001;
+const ATTACK = 0.005;
+
+// Frequency of the note `semitones` above A4
+export const noteFrequency = (semitones: number) => 440 * 2 ** (semitones / 12);
+
+export interface Tone {
+  wave: OscillatorType;
+  from: number; // Hz
+  to?: number; // Hz glided to over the tone, if it bends
+  at: number; // context time the tone starts
+  duration: number; // seconds
+  volume: number;
+}
+
+// A single oscillator note with a quick attack and an exponential decay
+export const playTone = (ctx: BaseAudioContext, output: AudioNode, { wave, from, to = from, at, duration, volume }: Tone) => {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = wave;
+  oscillator.frequency.setValueAtTime(from, at);
+  if (to !== from) oscillator.frequency.exponentialRampToValueAtTime(to, at + duration);
+  gain.gain.setValueAtTime(SILENT, at);
+  gain.gain.exponentialRampToValueAtTime(volume, at + ATTACK);
+  gain.gain.exponentialRampToValueAtTime(SILENT, at + duration);
+  oscillator.connect(gain).connect(output);
+  oscillator.start(at);
+  oscillator.stop(at + duration + ATTACK);
+};
+
+export interface Noise {
+  filter: BiquadFilterType;
+  from: number; // filter frequency in Hz
+  to?: number;
+  at: number;
+  duration: number;
+  volume: number;
+}
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// One second of white noise per context, looped by every noise burst
+const noiseBuffer = (ctx: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+// Filtered noise, for hits, whooshes and percussion
+export const playNoise = (ctx: BaseAudioContext, output: AudioNode, { filter, from, to = from, at, duration, volume }: Noise) => {
+  const source = ctx.createBufferSource();
+  const biquad = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noiseBuffer(ctx);
+  source.loop = true;
+  biquad.type = filter;
+  biquad.frequency.setValueAtTime(from, at);
+  if (to !== from) biquad.frequency.exponentialRampToValueAtTime(to, at + duration);
+  gain.gain.setValueAtTime(SILENT, at);
+  gain.gain.exponentialRampToValueAtTime(volume, at + ATTACK);
+  gain.gain.exponentialRampToValueAtTime(SILENT, at + duration);
+  source.connect(biquad).connect(gain).connect(output);
+  source.start(at);
+  source.stop(at + duration + ATTACK);
+};
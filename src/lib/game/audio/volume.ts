@@ -0,0 +1,34 @@
+// Loudness of each channel from 0 to 1; music and effects are both scaled by master
+export interface AudioVolumes {
+  master: number;
+  music: number;
+  sfx: number;
+}
+
+export type VolumeChannel = keyof AudioVolumes;
+
+export const VOLUME_CHANNELS: VolumeChannel[] = ['master', 'music', 'sfx'];
+
+export const VOLUME_LABELS: Record<VolumeChannel, string> = {
+  master: 'Master volume',
+  music: 'Music',
+  sfx: 'Sound effects'
+};
+
+export const DEFAULT_VOLUMES: AudioVolumes = { master: 0.8, music: 0.5, sfx: 0.8 };
+
+// Sliders feel even when they move loudness rather than amplitude, so gains follow the square
+export const volumeGain = (volume: number) => volume * volume;
+
+export const sanitizeVolumes = (value: unknown): AudioVolumes => {
+  if (!value || typeof value !== 'object') return DEFAULT_VOLUMES;
+
+  const volumes = { ...DEFAULT_VOLUMES };
+  for (const channel of VOLUME_CHANNELS) {
+    const volume = (value as Record<string, unknown>)[channel];
+    if (typeof volume === 'number' && Number.isFinite(volume)) {
+      volumes[channel] = Math.min(Math.max(volume, 0), 1);
+    }
+  }
+  return volumes;
+};
@@ -0,0 +1,178 @@
+import { OBSTACLE_RULES } from './obstacles';
+import type { Random } from './random';
+import type { Lane, ObstacleType, PathState } from './types';
+
+/**
+ * A hand-authored pattern. Each row is three cells, left to right, listed in
+ * the order they reach the player; rows are one obstacle spacing apart.
+ *
+ *   .  empty          c  coin
+ *   B  barrier        S  spike
+ *   L  laser          T  tunnel
+ *   R  train          ?  any obstacle, picked from the current difficulty mix
+ */
+export interface Chunk {
+  name: string;
+  minLevel: number;
+  rows: string[];
+}
+
+export const CHUNKS: Chunk[] = [
+  { name: 'single', minLevel: 1, rows: ['?..'] },
+  { name: 'coinTrail', minLevel: 1, rows: ['.c.', '.c.', '.c.'] },
+  { name: 'gap', minLevel: 1, rows: ['?c?'] },
+  { name: 'hurdles', minLevel: 2, rows: ['B.c', 'cS.', '.cB'] },
+  { name: 'scatter', minLevel: 2, rows: ['?.c', 'c?.', '.c?'] },
+  { name: 'tunnelRun', minLevel: 3, rows: ['.T.', 'cTc', '.T.'] },
+  { name: 'slalom', minLevel: 3, rows: ['R.c', 'cR.', '.cR'] },
+  { name: 'laserGate', minLevel: 5, rows: ['LLL'] },
+  { name: 'spikeWall', minLevel: 6, rows: ['SBS'] },
+  { name: 'trainYard', minLevel: 8, rows: ['RR.', '.RR', 'R?R'] },
+  { name: 'gauntlet', minLevel: 10, rows: ['???', 'c.c', '???'] }
+];
+
+// Fallback when no pattern fits after the previous ones
+export const EMPTY_ROW = '...';
+
+const CELL_OBSTACLES: Record<string, ObstacleType> = {
+  B: 'barrier',
+  S: 'spike',
+  L: 'laser',
+  T: 'tunnel',
+  R: 'train'
+};
+
+const OBSTACLE_CELLS = Object.fromEntries(
+  Object.entries(CELL_OBSTACLES).map(([cell, type]) => [type, cell])
+) as Record<ObstacleType, string>;
+
+export const cellObstacle = (cell: string): ObstacleType | null => CELL_OBSTACLES[cell] ?? null;
+
+// Fills in wildcards and mirrors half of the patterns for variety
+export const resolveChunk = (chunk: Chunk, random: Random, weights: Record<ObstacleType, number>) => {
+  const mirrored = random.next() < 0.5;
+  return chunk.rows.map(row => {
+    const cells = row.split('').map(cell => (cell === '?' ? OBSTACLE_CELLS[random.weighted(weights)] : cell));
+    return (mirrored ? cells.reverse() : cells).join('');
+  });
+};
+
+/**
+ * Step counts the solver needs from the player's movement. Jumps and slides
+ * are assumed to start as late as possible before the row they clear.
+ */
+export interface MoveTiming {
+  laneChangeSteps: number; // steps to move one lane over
+  jumpRiseSteps: number; // steps from pressing jump until it clears obstacles
+  jumpClearSteps: number; // steps a jump then stays above obstacle clearance
+  jumpCooldownSteps: number; // steps from one jump to the next
+  slideSteps: number; // steps a slide keeps the player low
+  slideCooldownSteps: number; // steps from one slide to the next
+}
+
+// How rows reach the player at the current speed and spacing
+export interface RowTiming {
+  gapSteps: number; // steps between one row passing the player and the next
+  overlapSteps: Record<ObstacleType, number>; // steps an obstacle of each type overlaps the player
+}
+
+// Rows spawn on whole steps, so one can pass up to a step earlier or later than
+// the spacing says; every deadline keeps this much in hand
+const SAFETY_STEPS = 1;
+
+const overlapOf = (cell: string, rowTiming: RowTiming) => {
+  const type = cellObstacle(cell);
+  return type ? rowTiming.overlapSteps[type] : 0;
+};
+
+/**
+ * Every state the player can be in once `row` has passed, given the states
+ * they could be in once the previous row had. An obstacle overlaps the player
+ * for the last overlapSteps before its row has passed, and a jump or slide
+ * has to cover all of that. Lane changes start once the previous row has
+ * passed and finish before anything in the lanes crossed reaches the player.
+ */
+export const advancePaths = (paths: PathState[], row: string, rowTiming: RowTiming, timing: MoveTiming) => {
+  const { gapSteps } = rowTiming;
+  const next = new Map<string, PathState>();
+  const add = (candidate: PathState) => {
+    const { lane, clearFor, readyIn, slideFor, slideReadyIn } = candidate;
+    next.set(`${lane}:${clearFor}:${readyIn}:${slideFor}:${slideReadyIn}`, candidate);
+  };
+
+  for (const path of paths) {
+    const carryOn = {
+      clearFor: Math.max(0, path.clearFor - gapSteps),
+      // A jump can be pressed while the previous row is still passing, so
+      // readiness further back than that makes no difference
+      readyIn: Math.max(-(timing.jumpRiseSteps + SAFETY_STEPS), path.readyIn - gapSteps),
+      slideFor: Math.max(0, path.slideFor - gapSteps),
+      slideReadyIn: Math.max(0, path.slideReadyIn - gapSteps)
+    };
+
+    for (let lane = 0; lane < 3; lane++) {
+      const low = Math.min(lane, path.lane);
+      const high = Math.max(lane, path.lane);
+      const crossed = Math.max(...row.slice(low, high + 1).split('').map(cell => overlapOf(cell, rowTiming)));
+      if ((high - low) * timing.laneChangeSteps > gapSteps - crossed - SAFETY_STEPS) continue;
+
+      const cell = row[lane];
+      const type = cellObstacle(cell);
+      const overlap = overlapOf(cell, rowTiming);
+
+      switch (type ? OBSTACLE_RULES[type].avoid : null) {
+        case null:
+          add({ lane: lane as Lane, ...carryOn });
+          break;
+        case 'jump':
+          // A jump kept from earlier rows was already clear when the previous row passed
+          if (carryOn.clearFor > SAFETY_STEPS && overlap <= gapSteps) {
+            add({ lane: lane as Lane, ...carryOn });
+          }
+          if (
+            path.readyIn <= gapSteps - overlap - timing.jumpRiseSteps - SAFETY_STEPS &&
+            timing.jumpClearSteps - overlap > SAFETY_STEPS
+          ) {
+            add({
+              lane: lane as Lane,
+              clearFor: timing.jumpClearSteps - overlap,
+              readyIn: timing.jumpCooldownSteps - overlap - timing.jumpRiseSteps,
+              // Jumping out of a slide cancels it
+              slideFor: 0,
+              slideReadyIn: carryOn.slideFor > 0 ? timing.slideCooldownSteps : carryOn.slideReadyIn
+            });
+          }
+          break;
+        case 'slide': {
+          // Jumping before the obstacle has passed would cancel the slide
+          const readyIn = Math.max(0, carryOn.readyIn);
+          if (carryOn.slideFor > SAFETY_STEPS && overlap <= gapSteps) {
+            add({ lane: lane as Lane, ...carryOn, readyIn });
+          }
+          if (
+            path.slideReadyIn <= gapSteps - overlap - SAFETY_STEPS &&
+            timing.slideSteps - overlap > SAFETY_STEPS
+          ) {
+            add({
+              lane: lane as Lane,
+              // Sliding in the air dives, ending the jump
+              clearFor: 0,
+              readyIn,
+              slideFor: timing.slideSteps - overlap,
+              slideReadyIn: timing.slideCooldownSteps - overlap
+            });
+          }
+          break;
+        }
+        case 'dodge':
+          break;
+      }
+    }
+  }
+
+  return [...next.values()];
+};
+
+// Empty when no sequence of moves gets through every row
+export const solveRows = (paths: PathState[], rows: string[], rowTiming: RowTiming, timing: MoveTiming) =>
+  rows.reduce((current, row) => (current.length ? advancePaths(current, row, rowTiming, timing) : current), paths);
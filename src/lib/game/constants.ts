@@ -0,0 +1,48 @@
+// The board the simulation runs on, in world units; the renderer scales these to any screen size and density
+export const GAME_WIDTH = 900;
+export const GAME_HEIGHT = 600;
+export const LANE_WIDTH = GAME_WIDTH / 3;
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 60;
+
+// The simulation always advances in fixed 60Hz steps; per-step values are tuned for this rate whatever the display refresh rate is
+export const FRAME_TIME = 1000 / 60;
+
+export const COIN_SIZE = 30;
+export const POWER_UP_SIZE = 40;
+export const POWER_UP_DURATION = 10000;
+export const OBSTACLE_DAMAGE = 25;
+export const HEALTH_RESTORE = 25;
+
+// Speed power-up: faster scrolling, bonus score and obstacles smashed on contact
+export const SPEED_BOOST_MULTIPLIER = 1.6;
+export const SPEED_SCORE_MULTIPLIER = 2;
+// Magnet power-up: coins this far ahead in the player's or a neighbouring lane
+// close a fraction of their remaining gap to the player every step
+export const MAGNET_RANGE = 260;
+export const MAGNET_PULL = 0.12;
+// Active power-ups flash for this long before they run out
+export const POWER_UP_WARNING_TIME = 2000;
+
+// Scroll speed and spawn rates follow the level, see difficulty.ts
+export const SCORE_PER_LEVEL = 100;
+
+// Actions pressed before they are possible, e.g. a jump just before landing,
+// are held this long and performed as soon as they become possible
+export const INPUT_BUFFER_TIME = 150;
+// A jump still counts this long after running off the edge of a surface
+export const COYOTE_TIME = 100;
+// Lane changes slide across rather than teleport, taking this long per lane
+export const LANE_CHANGE_TIME = 100;
+
+// Slides are counted in simulation steps so they pause and replay with the run
+export const SLIDE_FRAMES = 30;
+// Steps after a slide ends, or is cancelled into a jump, before the next one
+export const SLIDE_COOLDOWN_FRAMES = 12;
+
+// Collision boxes relative to where the player is drawn; sliding trades
+// height for a little width as the runner stretches out along the ground
+export const PLAYER_HITBOXES = {
+  standing: { offsetX: 0, offsetY: 0, width: PLAYER_WIDTH, height: PLAYER_HEIGHT },
+  sliding: { offsetX: -5, offsetY: 36, width: PLAYER_WIDTH + 10, height: 24 }
+};
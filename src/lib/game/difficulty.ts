@@ -0,0 +1,83 @@
+import type { CoinType, ObstacleType } from './types';
+
+type Weights<T extends string> = Record<T, number>;
+
+interface Range {
+  start: number; // value at level 1
+  end: number; // value once the ramp reaches maxLevel
+}
+
+interface WeightRange<T extends string> {
+  start: Weights<T>;
+  end: Weights<T>;
+}
+
+/**
+ * The difficulty curve. Every value ramps from `start` at level 1 to `end` at
+ * maxLevel and stays there; this is the only place that needs editing to
+ * retune how the game gets harder.
+ */
+export const DIFFICULTY_CURVE = {
+  maxLevel: 40,
+  // Below 1 the ramp front-loads the increase, above 1 it back-loads it
+  rampExponent: 0.8,
+  // Scroll speed in distance per step
+  speed: { start: 6, end: 11 },
+  // Distance travelled between spawns of each kind
+  obstacleSpacing: { start: 300, end: 150 },
+  coinSpacing: { start: 150, end: 200 },
+  powerUpSpacing: { start: 300, end: 900 },
+  // Relative chance of each type being picked
+  obstacleWeights: {
+    start: { barrier: 4, spike: 3, tunnel: 2, laser: 1, train: 1 },
+    end: { barrier: 2, spike: 2, tunnel: 3, laser: 3, train: 3 }
+  },
+  coinWeights: {
+    start: { normal: 5, gold: 3, diamond: 2 },
+    end: { normal: 8, gold: 2, diamond: 1 }
+  }
+} satisfies {
+  maxLevel: number;
+  rampExponent: number;
+  speed: Range;
+  obstacleSpacing: Range;
+  coinSpacing: Range;
+  powerUpSpacing: Range;
+  obstacleWeights: WeightRange<ObstacleType>;
+  coinWeights: WeightRange<CoinType>;
+};
+
+export interface Difficulty {
+  speed: number;
+  obstacleSpacing: number;
+  coinSpacing: number;
+  powerUpSpacing: number;
+  obstacleWeights: Weights<ObstacleType>;
+  coinWeights: Weights<CoinType>;
+}
+
+const lerp = (range: Range, t: number) => range.start + (range.end - range.start) * t;
+
+const lerpWeights = <T extends string>(range: WeightRange<T>, t: number) => {
+  const weights = { ...range.start };
+  for (const key of Object.keys(weights) as T[]) {
+    weights[key] = lerp({ start: range.start[key], end: range.end[key] }, t);
+  }
+  return weights;
+};
+
+// `level` may be fractional so the ramp moves smoothly between level-ups
+export const getDifficulty = (level: number): Difficulty => {
+  const { maxLevel, rampExponent } = DIFFICULTY_CURVE;
+  const progress = Math.min(Math.max((level - 1) / (maxLevel - 1), 0), 1);
+  const t = Math.pow(progress, rampExponent);
+
+  return {
+    speed: lerp(DIFFICULTY_CURVE.speed, t),
+    obstacleSpacing: lerp(DIFFICULTY_CURVE.obstacleSpacing, t),
+    coinSpacing: lerp(DIFFICULTY_CURVE.coinSpacing, t),
+    powerUpSpacing: lerp(DIFFICULTY_CURVE.powerUpSpacing, t),
+    obstacleWeights: lerpWeights(DIFFICULTY_CURVE.obstacleWeights, t),
+    coinWeights: lerpWeights(DIFFICULTY_CURVE.coinWeights, t)
+  };
+};
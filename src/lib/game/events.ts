@@ -0,0 +1,32 @@
+import type { GameEvent, GameEventType } from './types';
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+/**
+ * Passes the simulation's events on to whatever wants them, such as audio or
+ * the game-over screen, so none of them need to be wired into the simulation.
+ */
+export interface EventBus {
+  // Both return a function that unsubscribes the handler
+  on: <T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void) => () => void;
+  onAny: (handler: (event: GameEvent) => void) => () => void;
+  emit: (event: GameEvent) => void;
+}
+
+export const createEventBus = (): EventBus => {
+  const handlers = new Set<(event: GameEvent) => void>();
+
+  const onAny = (handler: (event: GameEvent) => void) => {
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  };
+
+  const on = <T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void) =>
+    onAny(event => {
+      if (event.type === type) handler(event as GameEventOf<T>);
+    });
+
+  return { on, onAny, emit: (event) => handlers.forEach(handler => handler(event)) };
+};
@@ -0,0 +1,85 @@
+import { INPUT_ACTIONS, type InputAction } from './input';
+
+// Button indices per action, using the browser's "standard" gamepad layout
+export type GamepadBindings = Record<InputAction, number[]>;
+
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  moveLeft: [14],
+  moveRight: [15],
+  jump: [0, 12],
+  slide: [1, 13],
+  pause: [9]
+};
+
+// A and Start confirm on menus whatever the bindings are, as Space does on keyboards
+export const CONFIRM_BUTTONS = [0, 9];
+
+// The left stick has to be pushed this far before it counts as a d-pad press
+export const STICK_THRESHOLD = 0.5;
+
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+const BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start',
+  'Left Stick', 'Right Stick', 'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'
+];
+
+export const MAX_GAMEPAD_BUTTON = 31;
+
+export const gamepadButtonName = (button: number) => BUTTON_NAMES[button] ?? `Button ${button}`;
+
+/**
+ * Buttons held on a pad, with the left stick folded onto the d-pad so the
+ * stick and d-pad drive the same bindings.
+ */
+export const readPressedButtons = (pad: Gamepad): Set<number> => {
+  const pressed = new Set<number>();
+  pad.buttons.forEach((button, index) => {
+    if (button.pressed) pressed.add(index);
+  });
+
+  const [x = 0, y = 0] = pad.axes;
+  if (x <= -STICK_THRESHOLD) pressed.add(DPAD.left);
+  if (x >= STICK_THRESHOLD) pressed.add(DPAD.right);
+  if (y <= -STICK_THRESHOLD) pressed.add(DPAD.up);
+  if (y >= STICK_THRESHOLD) pressed.add(DPAD.down);
+  return pressed;
+};
+
+// Buttons that went down since the previous poll, so holding one fires once
+export const newlyPressed = (current: Set<number>, previous: Set<number> | undefined) =>
+  [...current].filter(button => !previous?.has(button));
+
+export const newlyReleased = (current: Set<number>, previous: Set<number> | undefined) =>
+  [...(previous ?? [])].filter(button => !current.has(button));
+
+export const actionsForButtons = (buttons: number[], bindings: GamepadBindings): InputAction[] =>
+  INPUT_ACTIONS.filter(action => bindings[action].some(button => buttons.includes(button)));
+
+// Binds a button to one action, taking it away from whichever action had it
+export const rebindGamepadButton = (
+  bindings: GamepadBindings,
+  action: InputAction,
+  button: number
+): GamepadBindings => {
+  const next = { ...bindings };
+  for (const other of INPUT_ACTIONS) {
+    next[other] = bindings[other].filter(bound => bound !== button);
+  }
+  next[action] = [button];
+  return next;
+};
+
+export const sanitizeGamepadBindings = (value: unknown): GamepadBindings => {
+  if (!value || typeof value !== 'object') return DEFAULT_GAMEPAD_BINDINGS;
+
+  const bindings = { ...DEFAULT_GAMEPAD_BINDINGS };
+  for (const action of INPUT_ACTIONS) {
+    const buttons = (value as Record<string, unknown>)[action];
+    if (!Array.isArray(buttons)) continue;
+    bindings[action] = buttons.filter(
+      (button): button is number => Number.isInteger(button) && button >= 0 && button <= MAX_GAMEPAD_BUTTON
+    );
+  }
+  return bindings;
+};
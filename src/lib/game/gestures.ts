@@ -0,0 +1,18 @@
+import type { InputAction } from './input';
+
+export const DEFAULT_SWIPE_DEAD_ZONE = 30;
+export const MAX_SWIPE_DEAD_ZONE = 120;
+
+// A multi-finger touch counts as a tap while it stays this still and short
+export const TAP_MAX_MOVEMENT = 20;
+export const TAP_MAX_DURATION = 300;
+
+// Maps a drag to the move it stands for, or null while inside the dead zone
+export const classifySwipe = (dx: number, dy: number, deadZone: number): InputAction | null => {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < deadZone) return null;
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx < 0 ? 'moveLeft' : 'moveRight';
+  }
+  return dy < 0 ? 'jump' : 'slide';
+};
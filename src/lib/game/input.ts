@@ -0,0 +1,90 @@
+import type { PlayerAction } from './types';
+
+// What any input source can ask for: the player moves plus pausing. Sources
+// report releases too, which the host turns into 'releaseJump' for the jump.
+export type InputAction = Exclude<PlayerAction, 'releaseJump'> | 'pause';
+
+export const INPUT_ACTIONS: InputAction[] = ['moveLeft', 'moveRight', 'jump', 'slide', 'pause'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  jump: 'Jump',
+  slide: 'Slide',
+  pause: 'Pause'
+};
+
+// Each action can be bound to this many keys
+export const KEYS_PER_ACTION = 3;
+
+// Key values as `KeyboardEvent.key` reports them, letters in lower case
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ['ArrowLeft', 'a'],
+  moveRight: ['ArrowRight', 'd'],
+  jump: [' ', 'ArrowUp', 'w'],
+  slide: ['ArrowDown', 's'],
+  pause: ['p', 'Escape']
+};
+
+// Letters are matched regardless of case so Caps Lock does not break controls
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc'
+};
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+export const actionForKey = (key: string, bindings: KeyBindings): InputAction | null => {
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.find(action => bindings[action].includes(normalized)) ?? null;
+};
+
+export interface KeyConflict {
+  key: string;
+  action: InputAction;
+  slot: number;
+  takenBy: InputAction;
+}
+
+// Every binding after the first use of a key, with the action that used it first
+export const findKeyConflicts = (bindings: KeyBindings): KeyConflict[] => {
+  const owners = new Map<string, InputAction>();
+  const conflicts: KeyConflict[] = [];
+
+  for (const action of INPUT_ACTIONS) {
+    bindings[action].forEach((key, slot) => {
+      if (!key) return;
+      const takenBy = owners.get(key);
+      if (takenBy) {
+        conflicts.push({ key, action, slot, takenBy });
+      } else {
+        owners.set(key, action);
+      }
+    });
+  }
+  return conflicts;
+};
+
+export const sanitizeKeyBindings = (value: unknown): KeyBindings => {
+  if (!value || typeof value !== 'object') return DEFAULT_KEY_BINDINGS;
+
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const action of INPUT_ACTIONS) {
+    const keys = (value as Record<string, unknown>)[action];
+    if (!Array.isArray(keys)) continue;
+    bindings[action] = keys
+      .filter((key): key is string => typeof key === 'string' && key.length > 0)
+      .map(normalizeKey)
+      .slice(0, KEYS_PER_ACTION);
+  }
+  // Two actions sharing a key would make one of them unreachable
+  return findKeyConflicts(bindings).length > 0 ? DEFAULT_KEY_BINDINGS : bindings;
+};
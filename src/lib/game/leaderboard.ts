@@ -0,0 +1,85 @@
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  distance: number;
+  coins: number;
+  level: number;
+  seed: number;
+  date: string; // ISO timestamp of when the run ended
+  duration: number; // simulated milliseconds, pauses excluded
+}
+
+export type LeaderboardColumn = 'name' | 'distance' | 'coins' | 'level' | 'seed' | 'date' | 'duration';
+
+export const LEADERBOARD_KEY = 'lane-leaper:leaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.name === 'string' &&
+    typeof entry.date === 'string' &&
+    ['distance', 'coins', 'level', 'seed', 'duration'].every(key => typeof entry[key] === 'number')
+  );
+};
+
+// Ranked by distance, earlier runs first on ties
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.distance - a.distance || a.date.localeCompare(b.date);
+
+// Where storage is disabled even looking up localStorage throws
+const leaderboardStorage = (storage?: Storage) => storage ?? window.localStorage;
+
+export const loadLeaderboard = (storage?: Storage): LeaderboardEntry[] => {
+  let store: Storage;
+  let raw: string | null;
+  try {
+    store = leaderboardStorage(storage);
+    raw = store.getItem(LEADERBOARD_KEY);
+  } catch (error) {
+    console.warn('Could not read leaderboard:', error);
+    return [];
+  }
+  if (raw === null) return [];
+
+  try {
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data)) throw new Error('Leaderboard is not a list');
+    // Individually broken entries are dropped rather than losing the table
+    return data.filter(isEntry).sort(byRank).slice(0, LEADERBOARD_SIZE);
+  } catch (error) {
+    console.warn('Discarding unreadable leaderboard:', error);
+    try {
+      store.removeItem(LEADERBOARD_KEY);
+    } catch (storageError) {
+      console.warn('Could not remove unreadable leaderboard:', storageError);
+    }
+    return [];
+  }
+};
+
+export const saveLeaderboard = (entries: LeaderboardEntry[], storage?: Storage) => {
+  try {
+    leaderboardStorage(storage).setItem(LEADERBOARD_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn('Could not save leaderboard:', error);
+  }
+};
+
+export const qualifiesForLeaderboard = (entries: LeaderboardEntry[], distance: number) =>
+  distance > 0 && (entries.length < LEADERBOARD_SIZE || distance > entries[entries.length - 1].distance);
+
+export const addLeaderboardEntry = (entries: LeaderboardEntry[], entry: LeaderboardEntry) =>
+  [...entries, entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+
+export const sortLeaderboard = (entries: LeaderboardEntry[], column: LeaderboardColumn, descending: boolean) => {
+  const sorted = [...entries].sort((a, b) => {
+    const left = a[column];
+    const right = b[column];
+    return typeof left === 'string' && typeof right === 'string'
+      ? left.localeCompare(right)
+      : (left as number) - (right as number);
+  });
+  return descending ? sorted.reverse() : sorted;
+};
@@ -0,0 +1,70 @@
+import type { SimulationState } from './types';
+
+// Longest gap between two animation frames that is still simulated, so a
+// backgrounded tab does not fast-forward the run when it comes back
+export const MAX_FRAME_DELTA = 250;
+// Catch-up cap: a slow device drops time rather than spiralling
+export const MAX_STEPS_PER_FRAME = 5;
+
+export interface FixedStepClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+export const createClock = (): FixedStepClock => ({
+  lastTime: null,
+  accumulator: 0
+});
+
+// Returns how many fixed steps to run for the frame drawn at `now`
+export const advanceClock = (clock: FixedStepClock, now: number, stepTime: number) => {
+  const elapsed = clock.lastTime === null ? stepTime : now - clock.lastTime;
+  clock.lastTime = now;
+  clock.accumulator += Math.min(Math.max(elapsed, 0), MAX_FRAME_DELTA);
+
+  let steps = Math.floor(clock.accumulator / stepTime);
+  clock.accumulator -= steps * stepTime;
+  if (steps > MAX_STEPS_PER_FRAME) {
+    steps = MAX_STEPS_PER_FRAME;
+    clock.accumulator = 0;
+  }
+  return steps;
+};
+
+// How far the display is between the last two simulated steps, in [0, 1)
+export const interpolationAlpha = (clock: FixedStepClock, stepTime: number) => clock.accumulator / stepTime;
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+const interpolateEntities = <T extends { id: number; x: number; y: number }>(previous: T[], current: T[], alpha: number) => {
+  const previousById = new Map(previous.map(entity => [entity.id, entity]));
+  return current.map(entity => {
+    const before = previousById.get(entity.id);
+    if (!before) return entity;
+    return { ...entity, x: lerp(before.x, entity.x, alpha), y: lerp(before.y, entity.y, alpha) };
+  });
+};
+
+/**
+ * Blends two consecutive simulation states for rendering between steps. Only
+ * positions and the scrolled distance are blended; anything else is taken from
+ * the current state.
+ */
+export const interpolateState = (previous: SimulationState, current: SimulationState, alpha: number): SimulationState => {
+  if (alpha >= 1 || previous.frame !== current.frame - 1) return current;
+
+  return {
+    ...current,
+    frame: lerp(previous.frame, current.frame, alpha),
+    distance: lerp(previous.distance, current.distance, alpha),
+    player: {
+      ...current.player,
+      x: lerp(previous.player.x, current.player.x, alpha),
+      jumpHeight: lerp(previous.player.jumpHeight, current.player.jumpHeight, alpha)
+    },
+    obstacles: interpolateEntities(previous.obstacles, current.obstacles, alpha),
+    gameCoins: interpolateEntities(previous.gameCoins, current.gameCoins, alpha),
+    powerUps: interpolateEntities(previous.powerUps, current.powerUps, alpha),
+    particles: interpolateEntities(previous.particles, current.particles, alpha)
+  };
+};
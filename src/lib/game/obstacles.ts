@@ -0,0 +1,40 @@
+import type { ObstacleType, Player } from './types';
+
+export type Avoidance = 'jump' | 'slide' | 'dodge';
+
+export interface ObstacleRule {
+  width: number;
+  height: number;
+  avoid: Avoidance;
+  clearance?: number; // jump height needed to pass over a 'jump' obstacle
+  rideHeight?: number; // roof height the player can land on and run along
+  invulnerability: number; // ms of protection after being hit by one
+}
+
+/**
+ * How each obstacle type can be avoided. Collision code reads only this table,
+ * so tuning or adding a type does not touch the collision checks.
+ */
+export const OBSTACLE_RULES: Record<ObstacleType, ObstacleRule> = {
+  barrier: { width: 60, height: 80, avoid: 'jump', clearance: 40, invulnerability: 2000 },
+  spike: { width: 40, height: 60, avoid: 'jump', clearance: 30, invulnerability: 1500 },
+  laser: { width: 80, height: 20, avoid: 'slide', invulnerability: 1500 },
+  tunnel: { width: 60, height: 80, avoid: 'slide', invulnerability: 2000 },
+  // Trains are long, so the player needs time to get clear of one
+  train: { width: 60, height: 80, avoid: 'dodge', rideHeight: 100, invulnerability: 3000 }
+};
+
+export const canRide = (player: Player, rule: ObstacleRule) =>
+  rule.rideHeight !== undefined && player.jumpHeight >= rule.rideHeight;
+
+// Whether the player's current move gets them past an obstacle they overlap
+export const clearsObstacle = (player: Player, rule: ObstacleRule) => {
+  switch (rule.avoid) {
+    case 'jump':
+      return player.jumpHeight >= (rule.clearance ?? 0);
+    case 'slide':
+      return player.isSliding;
+    case 'dodge':
+      return canRide(player, rule);
+  }
+};
@@ -0,0 +1,24 @@
+/**
+ * Jump and fall tuning. Heights are in pixels above the track, velocities in
+ * pixels per step and accelerations in pixels per step squared, all at the
+ * fixed 60Hz step rate. Derived timings such as how long a jump stays over an
+ * obstacle are measured from these at load, so retuning here is enough.
+ */
+export const PHYSICS = {
+  // Upward speed at take-off; with riseGravity this sets the full jump height
+  jumpVelocity: 15,
+  // Pull while rising with the jump button held
+  riseGravity: 0.85,
+  // Pull once past the apex, a little stronger so landings feel snappy
+  fallGravity: 1.1,
+  // Releasing jump while still rising caps the upward speed at this, so
+  // a tap gives a short hop and holding gives the full arc
+  releaseVelocity: 8,
+  // Pressing slide in the air dives at this speed and keeps accelerating
+  fastFallVelocity: 12,
+  fastFallGravity: 2.5,
+  // Terminal speed of any fall
+  maxFallSpeed: 24
+} satisfies Record<string, number>;
+
+export type PhysicsConfig = typeof PHYSICS;
@@ -0,0 +1,237 @@
+import { sanitizeAchievements, type AchievementProgress } from './achievements';
+import { DEFAULT_VOLUMES, sanitizeVolumes, type AudioVolumes } from './audio/volume';
+import { DEFAULT_GAMEPAD_BINDINGS, sanitizeGamepadBindings, type GamepadBindings } from './gamepad';
+import { DEFAULT_SWIPE_DEAD_ZONE, MAX_SWIPE_DEAD_ZONE } from './gestures';
+import { DEFAULT_KEY_BINDINGS, sanitizeKeyBindings, type KeyBindings } from './input';
+import { CAMERA, clampFov } from './render/camera';
+import { DEFAULT_RENDER_QUALITY, isRenderQuality, type RenderQuality } from './render/quality';
+import { DEFAULT_RENDERER_BACKEND, isRendererBackend, type RendererBackend } from './render/renderer';
+
+export interface LevelRecord {
+  runs: number;
+  bestDistance: number;
+  bestCoins: number;
+}
+
+export interface ProfileSettings {
+  playerName: string;
+  swipeDeadZone: number; // pixels a touch must travel before it counts as a swipe
+  gamepadBindings: GamepadBindings;
+  keyBindings: KeyBindings;
+  renderQuality: RenderQuality; // highest quality to draw at; lowered for the session if drawing is too slow
+  renderer: RendererBackend;
+  fov: number; // camera's vertical field of view in degrees
+  volumes: AudioVolumes;
+}
+
+export interface Profile {
+  version: number;
+  bestDistance: number;
+  lifetimeCoins: number;
+  runsPlayed: number;
+  levelRecords: Record<number, LevelRecord>; // keyed by the level a run ended on
+  achievements: AchievementProgress;
+  settings: ProfileSettings;
+}
+
+export interface RunSummary {
+  distance: number;
+  coins: number;
+  level: number;
+}
+
+export const PROFILE_KEY = 'lane-leaper:profile';
+export const PROFILE_VERSION = 9;
+
+// Upgrades stored data from the version in the key to the next one
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // Before profiles were versioned only the high score existed, held in memory
+  0: (data) => ({ ...data, version: 1 }),
+  1: (data) => ({
+    ...data,
+    version: 2,
+    settings: { ...(data.settings as object), swipeDeadZone: DEFAULT_SWIPE_DEAD_ZONE }
+  }),
+  2: (data) => ({
+    ...data,
+    version: 3,
+    settings: { ...(data.settings as object), gamepadBindings: DEFAULT_GAMEPAD_BINDINGS }
+  }),
+  3: (data) => ({
+    ...data,
+    version: 4,
+    settings: { ...(data.settings as object), keyBindings: DEFAULT_KEY_BINDINGS }
+  }),
+  4: (data) => ({
+    ...data,
+    version: 5,
+    settings: { ...(data.settings as object), renderQuality: DEFAULT_RENDER_QUALITY }
+  }),
+  5: (data) => ({
+    ...data,
+    version: 6,
+    settings: { ...(data.settings as object), renderer: DEFAULT_RENDERER_BACKEND }
+  }),
+  6: (data) => ({
+    ...data,
+    version: 7,
+    settings: { ...(data.settings as object), volumes: DEFAULT_VOLUMES }
+  }),
+  7: (data) => ({ ...data, version: 8, achievements: {} }),
+  8: (data) => ({
+    ...data,
+    version: 9,
+    settings: { ...(data.settings as object), fov: CAMERA.fov }
+  })
+};
+
+export const createProfile = (): Profile => ({
+  version: PROFILE_VERSION,
+  bestDistance: 0,
+  lifetimeCoins: 0,
+  runsPlayed: 0,
+  levelRecords: {},
+  achievements: {},
+  settings: {
+    playerName: '',
+    swipeDeadZone: DEFAULT_SWIPE_DEAD_ZONE,
+    gamepadBindings: DEFAULT_GAMEPAD_BINDINGS,
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    renderQuality: DEFAULT_RENDER_QUALITY,
+    renderer: DEFAULT_RENDERER_BACKEND,
+    fov: CAMERA.fov,
+    volumes: DEFAULT_VOLUMES
+  }
+});
+
+const count = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+const sanitizeLevelRecords = (value: unknown) => {
+  const records: Record<number, LevelRecord> = {};
+  if (!value || typeof value !== 'object') return records;
+
+  for (const [level, record] of Object.entries(value)) {
+    const key = Number(level);
+    if (!Number.isInteger(key) || key < 1 || !record || typeof record !== 'object') continue;
+    records[key] = {
+      runs: count(record.runs),
+      bestDistance: count(record.bestDistance),
+      bestCoins: count(record.bestCoins)
+    };
+  }
+  return records;
+};
+
+// Keeps whatever fields are still usable and resets the rest to defaults
+const sanitizeProfile = (data: Record<string, unknown>): Profile => {
+  const defaults = createProfile();
+  const settings = (data.settings && typeof data.settings === 'object' ? data.settings : {}) as Partial<ProfileSettings>;
+
+  return {
+    version: PROFILE_VERSION,
+    bestDistance: count(data.bestDistance),
+    lifetimeCoins: count(data.lifetimeCoins),
+    runsPlayed: count(data.runsPlayed),
+    levelRecords: sanitizeLevelRecords(data.levelRecords),
+    achievements: sanitizeAchievements(data.achievements),
+    settings: {
+      ...defaults.settings,
+      playerName: typeof settings.playerName === 'string' ? settings.playerName.slice(0, 24) : '',
+      swipeDeadZone: typeof settings.swipeDeadZone === 'number' && settings.swipeDeadZone > 0
+        ? Math.min(settings.swipeDeadZone, MAX_SWIPE_DEAD_ZONE)
+        : defaults.settings.swipeDeadZone,
+      gamepadBindings: sanitizeGamepadBindings(settings.gamepadBindings),
+      keyBindings: sanitizeKeyBindings(settings.keyBindings),
+      renderQuality: isRenderQuality(settings.renderQuality) ? settings.renderQuality : defaults.settings.renderQuality,
+      renderer: isRendererBackend(settings.renderer) ? settings.renderer : defaults.settings.renderer,
+      fov: typeof settings.fov === 'number' && Number.isFinite(settings.fov)
+        ? clampFov(settings.fov)
+        : defaults.settings.fov,
+      volumes: sanitizeVolumes(settings.volumes)
+    }
+  };
+};
+
+const migrate = (data: Record<string, unknown>) => {
+  let current = data;
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  while (version < PROFILE_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) throw new Error(`No profile migration from version ${version}`);
+    current = upgrade(current);
+    version = current.version as number;
+  }
+  if (version > PROFILE_VERSION) {
+    throw new Error(`Profile version ${version} is newer than this game`);
+  }
+  return current;
+};
+
+// Where storage is disabled even looking up localStorage throws, so callers
+// resolve it inside their own error handling
+const profileStorage = (storage?: Storage) => storage ?? window.localStorage;
+
+/**
+ * Reads the stored profile, upgrading older versions. Unreadable data is moved
+ * aside to `<key>.corrupt` so a fresh profile can be used without losing it.
+ */
+export const loadProfile = (storage?: Storage): Profile => {
+  let store: Storage;
+  let raw: string | null;
+  try {
+    store = profileStorage(storage);
+    raw = store.getItem(PROFILE_KEY);
+  } catch (error) {
+    // Nothing can be kept between visits, so every visit starts fresh
+    console.warn('Could not read profile:', error);
+    return createProfile();
+  }
+  if (raw === null) return createProfile();
+
+  try {
+    const data = JSON.parse(raw);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Profile is not an object');
+    }
+    return sanitizeProfile(migrate(data));
+  } catch (error) {
+    console.warn('Discarding unreadable profile:', error);
+    try {
+      store.setItem(`${PROFILE_KEY}.corrupt`, raw);
+      store.removeItem(PROFILE_KEY);
+    } catch (storageError) {
+      console.warn('Could not set aside unreadable profile:', storageError);
+    }
+    return createProfile();
+  }
+};
+
+export const saveProfile = (profile: Profile, storage?: Storage) => {
+  try {
+    profileStorage(storage).setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    // Storage can be full or disabled; the profile simply stays in memory
+    console.warn('Could not save profile:', error);
+  }
+};
+
+export const recordRun = (profile: Profile, run: RunSummary): Profile => {
+  const previous = profile.levelRecords[run.level];
+
+  return {
+    ...profile,
+    bestDistance: Math.max(profile.bestDistance, run.distance),
+    lifetimeCoins: profile.lifetimeCoins + run.coins,
+    runsPlayed: profile.runsPlayed + 1,
+    levelRecords: {
+      ...profile.levelRecords,
+      [run.level]: {
+        runs: (previous?.runs ?? 0) + 1,
+        bestDistance: Math.max(previous?.bestDistance ?? 0, run.distance),
+        bestCoins: Math.max(previous?.bestCoins ?? 0, run.coins)
+      }
+    }
+  };
+};
@@ -0,0 +1,81 @@
+// A generator step takes the current 32-bit state and returns a value in [0, 1)
+// along with the next state, so the whole generator fits in a plain number.
+export type RandomAlgorithm = (state: number) => [value: number, nextState: number];
+
+export interface Random {
+  next: () => number;
+  int: (max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+  weighted: <T extends string>(weights: Record<T, number>) => T;
+  readonly state: number;
+}
+
+const MAX_SEED = 0xffffffff;
+
+export const mulberry32: RandomAlgorithm = (state) => {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+};
+
+export const createRandom = (state: number, algorithm: RandomAlgorithm = mulberry32): Random => {
+  let current = state >>> 0;
+
+  const next = () => {
+    const [value, nextState] = algorithm(current);
+    current = nextState;
+    return value;
+  };
+
+  return {
+    next,
+    int: (max) => Math.floor(next() * max),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    weighted: <T extends string>(weights: Record<T, number>) => {
+      const entries = Object.entries(weights) as [T, number][];
+      const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+      let roll = next() * total;
+      for (const [key, weight] of entries) {
+        roll -= weight;
+        if (roll < 0) return key;
+      }
+      return entries[entries.length - 1][0];
+    },
+    get state() {
+      return current;
+    }
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+const hashString = (text: string) => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(36).toUpperCase();
+
+// Accepts seeds as shown by formatSeed; any other text is hashed into a seed
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (/^[0-9a-z]{1,7}$/i.test(trimmed)) {
+    const value = parseInt(trimmed, 36);
+    if (value <= MAX_SEED) return value;
+  }
+  return hashString(trimmed.toLowerCase());
+};
+
+export const dailySeed = (date: Date = new Date()) => {
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  return hashString(`lane-leaper:${day}`);
+};
@@ -0,0 +1,91 @@
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteAnimation {
+  frames: string[]; // frame names, played in order and looped
+  fps: number;
+}
+
+// The JSON description of a sprite sheet, as stored next to it in public/
+export interface AtlasData {
+  image: string; // path of the sheet, relative to the JSON file
+  frames: Record<string, SpriteFrame>;
+  animations: Record<string, SpriteAnimation>;
+}
+
+export interface SpriteAtlas {
+  data: AtlasData;
+  image: HTMLImageElement;
+}
+
+export const ATLAS_URL = '/sprites/atlas.json';
+
+const isFrame = (value: unknown): value is SpriteFrame =>
+  !!value &&
+  typeof value === 'object' &&
+  ['x', 'y', 'w', 'h'].every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+const isAnimation = (value: unknown, frames: Record<string, SpriteFrame>): value is SpriteAnimation => {
+  if (!value || typeof value !== 'object') return false;
+  const { frames: names, fps } = value as Partial<SpriteAnimation>;
+  return (
+    Array.isArray(names) &&
+    names.length > 0 &&
+    names.every(name => typeof name === 'string' && name in frames) &&
+    typeof fps === 'number' &&
+    fps > 0
+  );
+};
+
+export const parseAtlas = (data: unknown): AtlasData => {
+  if (!data || typeof data !== 'object') throw new Error('Atlas is not an object');
+  const { image, frames, animations = {} } = data as Partial<AtlasData>;
+
+  if (typeof image !== 'string') throw new Error('Atlas has no image');
+  if (!frames || typeof frames !== 'object' || !Object.values(frames).every(isFrame)) {
+    throw new Error('Atlas frames are malformed');
+  }
+  if (typeof animations !== 'object' || !Object.values(animations).every(value => isAnimation(value, frames))) {
+    throw new Error('Atlas animations are malformed');
+  }
+  return { image, frames, animations };
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load sprite sheet ${url}`));
+    image.src = url;
+  });
+
+/**
+ * Fetches an atlas description and the sheet it points at. Rejects when
+ * either is missing or malformed, leaving the caller to fall back.
+ */
+export const loadAtlas = async (url: string = ATLAS_URL): Promise<SpriteAtlas> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load atlas ${url}: ${response.status}`);
+
+  const data = parseAtlas(await response.json());
+  const image = await loadImage(new URL(data.image, new URL(url, window.location.href)).href);
+  return { data, image };
+};
+
+// Resolves a sprite name to a frame name, picking the animation frame for `time` in ms
+export const resolveFrameName = (atlas: SpriteAtlas, name: string, time: number): string | undefined => {
+  const animation = atlas.data.animations[name];
+  if (!animation) return name in atlas.data.frames ? name : undefined;
+
+  const index = Math.floor((time / 1000) * animation.fps) % animation.frames.length;
+  return animation.frames[index];
+};
+
+export const resolveFrame = (atlas: SpriteAtlas, name: string, time: number): SpriteFrame | undefined => {
+  const frameName = resolveFrameName(atlas, name, time);
+  return frameName === undefined ? undefined : atlas.data.frames[frameName];
+};
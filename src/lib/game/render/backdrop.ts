@@ -0,0 +1,112 @@
+import { GAME_WIDTH } from '../constants';
+import { nearestAhead, project, type Camera } from './camera';
+import { createLayer, refreshLayer, resizeLayer, type CachedLayer } from './layers';
+import { TRACK_DRAW_DISTANCE } from './layout';
+import type { QualityFeatures } from './quality';
+
+/**
+ * The sky, the stars and the road, drawn with Canvas 2D into offscreen layers
+ * that are only redrawn when they change. Every renderer composites these
+ * rather than drawing them itself; the stars are one tile that scrolls. Each
+ * layer covers the whole view at the canvas's pixel density.
+ */
+export interface Backdrop {
+  sky: CachedLayer;
+  stars: CachedLayer;
+  track: CachedLayer;
+}
+
+export const createBackdrop = (): Backdrop => ({
+  sky: createLayer(1, 1),
+  stars: createLayer(1, 1),
+  track: createLayer(1, 1)
+});
+
+const refreshSky = (layer: CachedLayer, camera: Camera, features: QualityFeatures, time: number, pixelRatio: number) => {
+  const { width, height } = camera.view;
+  // The sky's colours drift slowly, so it is redrawn only when they change by a whole degree
+  const topHue = features.animatedSky ? Math.round(240 + Math.sin(time) * 10) : 240;
+  const bottomHue = features.animatedSky ? Math.round(270 + Math.cos(time) * 15) : 270;
+  refreshLayer(layer, `${topHue},${bottomHue}`, (sky) => {
+    const gradient = sky.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, `hsl(${topHue}, 100%, 8%)`);
+    gradient.addColorStop(1, `hsl(${bottomHue}, 80%, 15%)`);
+    sky.fillStyle = gradient;
+    sky.fillRect(0, 0, width, height);
+  }, pixelRatio);
+};
+
+const refreshStars = (layer: CachedLayer, camera: Camera, features: QualityFeatures, pixelRatio: number) => {
+  refreshLayer(layer, `${features.stars},${camera.horizonY}`, (tile) => {
+    tile.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    for (let i = 0; i < features.stars; i++) {
+      tile.beginPath();
+      tile.arc((i * 37) % camera.view.width, (i * 73) % camera.horizonY, 1 + (i % 3) * 0.25, 0, Math.PI * 2);
+      tile.fill();
+    }
+  }, pixelRatio);
+};
+
+// The road itself never moves, so it is drawn once per camera
+const refreshTrack = (layer: CachedLayer, camera: Camera, features: QualityFeatures, pixelRatio: number) => {
+  const { width, height } = camera.view;
+  refreshLayer(layer, `${camera.fov},${camera.horizonY},${features.glows}`, (track) => {
+    const near = nearestAhead(camera);
+    const nearLeft = project(camera, 0, near);
+    const nearRight = project(camera, GAME_WIDTH, near);
+    const farLeft = project(camera, 0, TRACK_DRAW_DISTANCE);
+    const farRight = project(camera, GAME_WIDTH, TRACK_DRAW_DISTANCE);
+    if (!nearLeft || !nearRight || !farLeft || !farRight) return;
+
+    // Ground either side of the track
+    track.fillStyle = 'hsla(240, 40%, 6%, 0.8)';
+    track.fillRect(0, camera.horizonY, width, height - camera.horizonY);
+
+    const trackGradient = track.createLinearGradient(0, camera.horizonY, 0, height);
+    trackGradient.addColorStop(0, 'hsl(240, 30%, 12%)');
+    trackGradient.addColorStop(0.5, 'hsl(240, 40%, 10%)');
+    trackGradient.addColorStop(1, 'hsl(240, 50%, 8%)');
+    track.fillStyle = trackGradient;
+    track.beginPath();
+    track.moveTo(nearLeft.x, nearLeft.y);
+    track.lineTo(farLeft.x, farLeft.y);
+    track.lineTo(farRight.x, farRight.y);
+    track.lineTo(nearRight.x, nearRight.y);
+    track.closePath();
+    track.fill();
+
+    // Track edges with glow
+    track.strokeStyle = 'hsl(240, 50%, 25%)';
+    track.lineWidth = 3;
+    if (features.glows) {
+      track.shadowColor = 'hsl(240, 50%, 25%)';
+      track.shadowBlur = 10;
+    }
+    track.beginPath();
+    track.moveTo(nearLeft.x, nearLeft.y);
+    track.lineTo(farLeft.x, farLeft.y);
+    track.moveTo(nearRight.x, nearRight.y);
+    track.lineTo(farRight.x, farRight.y);
+    track.stroke();
+  }, pixelRatio);
+};
+
+// `pixelRatio` is canvas pixels per view unit
+export const refreshBackdrop = (
+  backdrop: Backdrop,
+  camera: Camera,
+  features: QualityFeatures,
+  time: number,
+  pixelRatio: number
+) => {
+  const width = Math.round(camera.view.width * pixelRatio);
+  const height = Math.round(camera.view.height * pixelRatio);
+  [backdrop.sky, backdrop.stars, backdrop.track].forEach(layer => resizeLayer(layer, width, height));
+
+  refreshSky(backdrop.sky, camera, features, time, pixelRatio);
+  refreshStars(backdrop.stars, camera, features, pixelRatio);
+  refreshTrack(backdrop.track, camera, features, pixelRatio);
+};
+
+// How far the star tile has scrolled down the sky; it is drawn here and once more a sky's height above
+export const starOffset = (camera: Camera, time: number) => (time * 20) % camera.horizonY;
@@ -0,0 +1,88 @@
+import { GAME_WIDTH } from '../constants';
+import { VIEW_SIZES, type ViewSize } from './viewport';
+
+/**
+ * The simulation is a flat board seen from above: x runs across the lanes and
+ * y runs down the track towards the player. The renderer looks along it from
+ * a camera hung above and behind the player, so y becomes depth and jump
+ * height becomes height off the track. Screen positions are fractions of the
+ * view height and distances are in the simulation's units.
+ */
+export const CAMERA = {
+  // Vertical field of view in degrees; wider pulls the camera in closer
+  fov: 60,
+  // Where the track vanishes, and where the ground under the player is drawn
+  horizon: 0.3,
+  portraitHorizon: 0.25,
+  ground: 0.93,
+  // Objects fade in over this stretch of distance ahead of the player
+  fadeStart: 330,
+  fadeEnd: 510,
+  // Nothing is drawn closer to the eye than this fraction of the player's depth
+  near: 0.2
+} satisfies Record<string, number>;
+
+export const MIN_FOV = 30;
+export const MAX_FOV = 100;
+
+export const clampFov = (fov: number) => Math.min(Math.max(fov, MIN_FOV), MAX_FOV);
+
+export interface Camera {
+  fov: number;
+  focal: number; // screen distance of the projection plane
+  distance: number; // depth of the player's plane from the eye
+  height: number; // eye height above the track
+  horizonY: number;
+  centerX: number;
+  view: ViewSize;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+  scale: number; // view units per world unit at this depth
+}
+
+/**
+ * Builds a camera for a field of view and view size. The eye is placed so the
+ * player's plane is drawn at its simulated size whatever the field of view,
+ * which keeps the lanes filling the view at the player and only changes how
+ * fast the track narrows towards the horizon. A view narrower than the track,
+ * as in portrait, pulls the eye back until all three lanes fit.
+ */
+export const createCamera = (fov: number = CAMERA.fov, view: ViewSize = VIEW_SIZES.landscape): Camera => {
+  const clamped = clampFov(fov);
+  const zoom = Math.min(view.width / GAME_WIDTH, 1);
+  const focal = view.height / 2 / Math.tan((clamped * Math.PI) / 360);
+  const horizonY = view.height * (view.height > view.width ? CAMERA.portraitHorizon : CAMERA.horizon);
+
+  return {
+    fov: clamped,
+    focal,
+    distance: focal / zoom,
+    height: (view.height * CAMERA.ground - horizonY) / zoom,
+    horizonY,
+    centerX: view.width / 2,
+    view
+  };
+};
+
+// Projects a point `ahead` of the player and `lift` above the track; null when behind the eye
+export const project = (camera: Camera, x: number, ahead: number, lift: number = 0): ScreenPoint | null => {
+  const depth = camera.distance + ahead;
+  if (depth < camera.distance * CAMERA.near) return null;
+
+  const scale = camera.focal / depth;
+  return {
+    x: camera.centerX + (x - GAME_WIDTH / 2) * scale,
+    y: camera.horizonY + (camera.height - lift) * scale,
+    scale
+  };
+};
+
+// The closest distance ahead, negative as it is behind the player, that can be drawn
+export const nearestAhead = (camera: Camera) => camera.distance * (CAMERA.near - 1);
+
+// Opacity of something this far ahead, so objects fade in rather than pop in
+export const depthFade = (ahead: number) =>
+  Math.min(Math.max((CAMERA.fadeEnd - ahead) / (CAMERA.fadeEnd - CAMERA.fadeStart), 0), 1);
@@ -0,0 +1,183 @@
+import type { SimulationState } from '../types';
+import type { SpriteAtlas } from './atlas';
+import { createBackdrop, refreshBackdrop, starOffset, type Backdrop } from './backdrop';
+import type { Camera } from './camera';
+import { drawGlows, type GlowSprites } from './layers';
+import {
+  HUD_BAR,
+  LANE_DASH_COLOR,
+  layoutScene,
+  MAGNET_LINE_COLOR,
+  MAGNET_RING_COLOR,
+  SHADOW_COLOR,
+  STREAK_COLOR,
+  type HudLayout,
+  type SceneItem,
+  type SceneSprite,
+  type Segment
+} from './layout';
+import { drawShape } from './procedural';
+import { QUALITY_FEATURES, type QualityFeatures } from './quality';
+import type { FrameOptions, Renderer } from './renderer';
+import { drawSpriteOr } from './sprites';
+
+const drawBackdrop = (
+  ctx: CanvasRenderingContext2D,
+  backdrop: Backdrop,
+  camera: Camera,
+  features: QualityFeatures,
+  time: number,
+  pixelRatio: number
+) => {
+  const { width, height } = camera.view;
+  refreshBackdrop(backdrop, camera, features, time, pixelRatio);
+  ctx.drawImage(backdrop.sky.canvas, 0, 0, width, height);
+
+  if (features.stars > 0) {
+    const offset = starOffset(camera, time);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, width, camera.horizonY);
+    ctx.clip();
+    ctx.drawImage(backdrop.stars.canvas, 0, offset, width, height);
+    ctx.drawImage(backdrop.stars.canvas, 0, offset - camera.horizonY, width, height);
+    ctx.restore();
+  }
+
+  ctx.drawImage(backdrop.track.canvas, 0, 0, width, height);
+};
+
+/**
+ * Fills lines running along the track as trapezoids, narrowing with depth.
+ * Lines of equal opacity share one path, so a whole lane of dashes is one fill.
+ */
+const fillTrackLines = (ctx: CanvasRenderingContext2D, segments: Segment[], color: string) => {
+  const byAlpha = new Map<number, Segment[]>();
+  segments.forEach(segment => byAlpha.set(segment.alpha, [...(byAlpha.get(segment.alpha) ?? []), segment]));
+
+  ctx.fillStyle = color;
+  byAlpha.forEach((group, alpha) => {
+    ctx.globalAlpha = alpha;
+    ctx.beginPath();
+    group.forEach(({ from, to, width }) => {
+      ctx.moveTo(from.x - (width / 2) * from.scale, from.y);
+      ctx.lineTo(to.x - (width / 2) * to.scale, to.y);
+      ctx.lineTo(to.x + (width / 2) * to.scale, to.y);
+      ctx.lineTo(from.x + (width / 2) * from.scale, from.y);
+      ctx.closePath();
+    });
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+};
+
+const drawSceneSprite = (ctx: CanvasRenderingContext2D, atlas: SpriteAtlas | null, sprite: SceneSprite, time: number) => {
+  ctx.save();
+  ctx.globalAlpha = sprite.alpha;
+  ctx.translate(sprite.x, sprite.y);
+  ctx.scale(sprite.scale, sprite.scale);
+  ctx.rotate(sprite.rotation);
+  drawSpriteOr(ctx, atlas, sprite.name, sprite.width, sprite.height, time, () => {
+    ctx.rotate(sprite.spin);
+    drawShape(ctx, sprite.shape);
+  });
+  ctx.restore();
+};
+
+const drawItem = (ctx: CanvasRenderingContext2D, atlas: SpriteAtlas | null, item: SceneItem, time: number) => {
+  if (item.kind === 'player') {
+    if (item.shadow) {
+      ctx.fillStyle = SHADOW_COLOR;
+      ctx.beginPath();
+      ctx.ellipse(item.shadow.x, item.shadow.y, item.shadow.radiusX, item.shadow.radiusY, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    item.afterimages.forEach(quad => {
+      ctx.fillStyle = quad.color;
+      ctx.fillRect(quad.x, quad.y, quad.width, quad.height);
+    });
+    if (item.magnetRing) {
+      ctx.strokeStyle = MAGNET_RING_COLOR;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(item.magnetRing.x, item.magnetRing.y, item.magnetRing.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  }
+  drawSceneSprite(ctx, atlas, item.sprite, time);
+};
+
+const drawHud = (ctx: CanvasRenderingContext2D, hud: HudLayout) => {
+  const { x, y, width, height } = HUD_BAR;
+
+  // Background
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(x, y, width, height);
+
+  // Health bar
+  ctx.fillStyle = hud.healthColor;
+  ctx.fillRect(x + 2, y + 2, (width - 4) * hud.health, height - 4);
+
+  // Border
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+
+  // Remaining power-up time
+  if (hud.powerUp) {
+    ctx.fillStyle = hud.powerUp.color;
+    ctx.fillRect(x, y + height + 6, width * hud.powerUp.fraction, 6);
+  }
+};
+
+// The original renderer, drawing everything with the Canvas 2D API in view units scaled to the canvas
+export const createCanvas2DRenderer = (canvas: HTMLCanvasElement): Renderer | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const backdrop = createBackdrop();
+  const glowSprites: GlowSprites = new Map();
+
+  const draw = (state: SimulationState, { atlas, camera, quality, showHud }: FrameOptions) => {
+    const features = QUALITY_FEATURES[quality];
+    const layout = layoutScene(state, camera, features);
+    const pixelRatio = canvas.width / camera.view.width;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, camera.view.width, camera.view.height);
+    drawBackdrop(ctx, backdrop, camera, features, layout.time, pixelRatio);
+    fillTrackLines(ctx, layout.dashes, LANE_DASH_COLOR);
+    fillTrackLines(ctx, layout.streaks, STREAK_COLOR);
+
+    // Particles
+    layout.particles.forEach(particle => {
+      ctx.globalAlpha = particle.alpha;
+      ctx.fillStyle = particle.color;
+      ctx.beginPath();
+      ctx.arc(particle.x, particle.y, particle.radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1;
+
+    if (layout.magnetLines.length > 0) {
+      ctx.strokeStyle = MAGNET_LINE_COLOR;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 6]);
+      ctx.lineDashOffset = state.frame;
+      ctx.beginPath();
+      layout.magnetLines.forEach(({ from, to }) => {
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    drawGlows(ctx, glowSprites, layout.glows);
+    layout.items.forEach(item => drawItem(ctx, atlas, item, layout.spriteTime));
+
+    if (showHud) drawHud(ctx, layout.hud);
+  };
+
+  return { backend: 'canvas2d', draw, dispose: () => glowSprites.clear() };
+};
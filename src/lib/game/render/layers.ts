@@ -0,0 +1,91 @@
+// An offscreen canvas holding a layer that only needs redrawing when `key` changes
+export interface CachedLayer {
+  canvas: HTMLCanvasElement;
+  key: string | null;
+  version: number; // counts redraws, so copies of the layer can tell when they are stale
+}
+
+export const createLayer = (width: number, height: number): CachedLayer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, key: null, version: 0 };
+};
+
+// Resizing clears the canvas, so the layer is redrawn on its next refresh
+export const resizeLayer = (layer: CachedLayer, width: number, height: number) => {
+  if (layer.canvas.width === width && layer.canvas.height === height) return;
+  layer.canvas.width = width;
+  layer.canvas.height = height;
+  layer.key = null;
+};
+
+/**
+ * Returns the layer's canvas, first redrawing it with `draw` if it was last
+ * drawn for a different key. Keys should capture everything `draw` depends on.
+ * `draw` works in units that are `scale` of the canvas's pixels.
+ */
+export const refreshLayer = (
+  layer: CachedLayer,
+  key: string,
+  draw: (ctx: CanvasRenderingContext2D) => void,
+  scale: number = 1
+) => {
+  if (layer.key !== key) {
+    const ctx = layer.canvas.getContext('2d');
+    if (!ctx) return layer.canvas;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    draw(ctx);
+    layer.key = key;
+    layer.version++;
+  }
+  return layer.canvas;
+};
+
+export interface Glow {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+  alpha: number;
+}
+
+// Pre-rendered soft halos, one per colour, stamped instead of using shadowBlur
+export type GlowSprites = Map<string, HTMLCanvasElement>;
+
+const GLOW_SPRITE_SIZE = 64;
+
+const glowSprite = (sprites: GlowSprites, color: string) => {
+  let sprite = sprites.get(color);
+  if (!sprite) {
+    sprite = document.createElement('canvas');
+    sprite.width = GLOW_SPRITE_SIZE;
+    sprite.height = GLOW_SPRITE_SIZE;
+    const ctx = sprite.getContext('2d');
+    if (ctx) {
+      const half = GLOW_SPRITE_SIZE / 2;
+      const gradient = ctx.createRadialGradient(half, half, 0, half, half, half);
+      gradient.addColorStop(0, color);
+      gradient.addColorStop(1, 'transparent');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, GLOW_SPRITE_SIZE, GLOW_SPRITE_SIZE);
+    }
+    sprites.set(color, sprite);
+  }
+  return sprite;
+};
+
+// Draws a whole frame's glows in one additive pass
+export const drawGlows = (ctx: CanvasRenderingContext2D, sprites: GlowSprites, glows: Glow[]) => {
+  if (glows.length === 0) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  glows.forEach(({ x, y, radius, color, alpha }) => {
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(glowSprite(sprites, color), x - radius, y - radius, radius * 2, radius * 2);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,377 @@
+import {
+  COIN_SIZE,
+  FRAME_TIME,
+  GAME_WIDTH,
+  LANE_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_HITBOXES,
+  PLAYER_WIDTH,
+  POWER_UP_DURATION,
+  POWER_UP_SIZE,
+  POWER_UP_WARNING_TIME
+} from '../constants';
+import { OBSTACLE_RULES } from '../obstacles';
+import { hasPowerUp } from '../simulation';
+import type { CoinType, Obstacle, ObstacleType, Player, PowerUpType, SimulationState } from '../types';
+import { depthFade, nearestAhead, project, type Camera, type ScreenPoint } from './camera';
+import type { Glow } from './layers';
+import { COIN_STYLES, OBSTACLE_COLORS, POWER_UP_COLORS } from './palette';
+import type { QualityFeatures } from './quality';
+import { coinSprite, obstacleSprite, playerSprite, powerUpSprite } from './sprites';
+
+// How far down the track the road, and the lane lines on it, are drawn
+export const TRACK_DRAW_DISTANCE = 4000;
+const LANE_DRAW_DISTANCE = 1500;
+// Lane lines thin out over this much of their far end
+const LANE_FADE_DISTANCE = 400;
+// Lane line dashes, in world units along the track
+const DASH_LENGTH = 30;
+const DASH_GAP = 15;
+// Coins and power-ups hover this far above the track
+const PICKUP_LIFT = 20;
+// Sliding leaves this much room under the player's standing height
+const SLIDE_CLEARANCE = PLAYER_HEIGHT - PLAYER_HITBOXES.sliding.offsetY;
+export const SLIDING_HEIGHT = PLAYER_HEIGHT * 0.6;
+
+/**
+ * How tall an obstacle is drawn and how far it floats, taken from what gets
+ * past it: jumps clear its top, slides pass under it and trains carry riders.
+ */
+export const obstacleStand = (type: ObstacleType) => {
+  const rule = OBSTACLE_RULES[type];
+  switch (rule.avoid) {
+    case 'jump':
+      return { lift: 0, height: rule.clearance ?? rule.height };
+    case 'slide':
+      return { lift: SLIDE_CLEARANCE, height: rule.height };
+    case 'dodge':
+      return { lift: 0, height: rule.rideHeight ?? rule.height };
+  }
+};
+
+// What an obstacle's shape needs, with the height it is drawn at
+export type ObstacleOutline = Pick<Obstacle, 'type' | 'width' | 'height'>;
+
+// The built-in shape drawn for a sprite the atlas does not have
+export type Shape =
+  | { kind: 'powerUp'; type: PowerUpType }
+  | { kind: 'obstacle'; obstacle: ObstacleOutline }
+  | { kind: 'coin'; type: CoinType }
+  | { kind: 'player'; height: number };
+
+export interface SceneSprite {
+  name: string;
+  shape: Shape;
+  x: number;
+  y: number;
+  scale: number; // screen pixels per world unit
+  width: number; // world units
+  height: number;
+  rotation: number;
+  spin: number; // extra turn for the shape only, as sprites animate their own spin
+  alpha: number;
+}
+
+// A line on screen, `width` world units wide at each end
+export interface Segment {
+  from: ScreenPoint;
+  to: ScreenPoint;
+  width: number;
+  alpha: number;
+}
+
+export interface Dot {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+  alpha: number;
+}
+
+export interface Quad {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+export interface PlayerItem {
+  kind: 'player';
+  ahead: number;
+  sprite: SceneSprite;
+  shadow: { x: number; y: number; radiusX: number; radiusY: number } | null;
+  afterimages: Quad[];
+  magnetRing: { x: number; y: number; radius: number } | null;
+}
+
+export interface SpriteItem {
+  kind: 'sprite';
+  ahead: number;
+  sprite: SceneSprite;
+}
+
+export type SceneItem = PlayerItem | SpriteItem;
+
+export interface HudLayout {
+  health: number; // fraction left
+  healthColor: string;
+  powerUp: { color: string; fraction: number } | null;
+}
+
+/**
+ * Everything one frame shows, already projected to screen space, so each
+ * renderer only has to draw it. The sky and the road are not included; they
+ * come from the cached backdrop layers.
+ */
+export interface SceneLayout {
+  time: number; // drives the sky and stars
+  spriteTime: number; // ms of simulation time, for sprite animations
+  dashes: Segment[];
+  streaks: Segment[];
+  particles: Dot[];
+  magnetLines: Segment[];
+  glows: Glow[];
+  items: SceneItem[]; // far to near
+  hud: HudLayout;
+}
+
+export const HUD_BAR = { x: 20, y: 20, width: 200, height: 20 };
+export const LANE_DASH_COLOR = 'hsl(240, 50%, 30%)';
+export const STREAK_COLOR = 'hsla(120, 100%, 70%, 0.35)';
+export const MAGNET_LINE_COLOR = 'hsla(45, 100%, 60%, 0.4)';
+export const MAGNET_RING_COLOR = 'hsla(45, 100%, 60%, 0.5)';
+export const SHADOW_COLOR = 'rgba(0, 0, 0, 0.35)';
+
+const segment = (camera: Camera, x: number, from: number, to: number, width: number, alpha: number): Segment | null => {
+  const start = project(camera, x, from);
+  const end = project(camera, x, to);
+  return start && end ? { from: start, to: end, width, alpha } : null;
+};
+
+// Lane divider dashes are laid along the track so they scroll with the run
+const layoutDashes = (camera: Camera, distance: number) => {
+  const dashes: Segment[] = [];
+  const period = DASH_LENGTH + DASH_GAP;
+  for (let start = nearestAhead(camera) - (distance % period); start < LANE_DRAW_DISTANCE; start += period) {
+    const alpha = Math.min((LANE_DRAW_DISTANCE - start) / LANE_FADE_DISTANCE, 1);
+    for (let i = 1; i < 3; i++) {
+      const dash = segment(camera, i * LANE_WIDTH, start + DASH_LENGTH, start, 2, alpha);
+      if (dash) dashes.push(dash);
+    }
+  }
+  return dashes;
+};
+
+// Streaks rushing past along the track while the speed boost is active
+const layoutStreaks = (camera: Camera, frame: number) => {
+  const streaks: Segment[] = [];
+  const range = LANE_DRAW_DISTANCE - nearestAhead(camera);
+  for (let i = 0; i < 16; i++) {
+    const start = LANE_DRAW_DISTANCE - ((i * 97 + frame * 24) % range);
+    const streak = segment(camera, (i * 59) % GAME_WIDTH, start + 80, start, 2, 1);
+    if (streak) streaks.push(streak);
+  }
+  return streaks;
+};
+
+const playerHeight = (player: Player) => (player.isSliding ? SLIDING_HEIGHT : PLAYER_HEIGHT);
+const playerLift = (player: Player) => player.jumpHeight + playerHeight(player) / 2;
+
+// Colour of the player's power-up glow, flickering when the power-up is about to run out
+const playerGlowColor = (player: Player, frame: number) => {
+  const powerUpEnding = player.powerUpTimer < POWER_UP_WARNING_TIME && Math.floor(frame / 6) % 2 === 0;
+  // Health is used up on pickup, so it has no lasting glow
+  if (!player.powerUpActive || powerUpEnding || !player.powerUpType || player.powerUpType === 'health') return null;
+  return POWER_UP_COLORS[player.powerUpType];
+};
+
+const layoutPlayer = (camera: Camera, player: Player, features: QualityFeatures, frame: number): PlayerItem | null => {
+  const centerX = player.x + PLAYER_WIDTH / 2;
+  const height = playerHeight(player);
+  const lift = playerLift(player);
+  const point = project(camera, centerX, 0, lift);
+  if (!point) return null;
+
+  // Shadow on whatever the player is over, so the height of a jump reads
+  const ground = project(camera, centerX, 0, player.surfaceHeight);
+  let shadow: PlayerItem['shadow'] = null;
+  if (features.effects && ground && player.jumpHeight > player.surfaceHeight) {
+    const spread = Math.max(1 - (player.jumpHeight - player.surfaceHeight) / 200, 0.3);
+    shadow = {
+      x: ground.x,
+      y: ground.y,
+      radiusX: (PLAYER_WIDTH / 2) * spread * ground.scale,
+      radiusY: 6 * spread * ground.scale
+    };
+  }
+
+  // Speed afterimages trailing behind the player
+  const afterimages: Quad[] = [];
+  if (features.effects && hasPowerUp(player, 'speed')) {
+    for (let i = 1; i <= 3; i++) {
+      const trail = project(camera, centerX, -i * 14, lift);
+      if (!trail) continue;
+      afterimages.push({
+        x: trail.x - (PLAYER_WIDTH / 2) * trail.scale,
+        y: trail.y - (height / 2) * trail.scale,
+        width: PLAYER_WIDTH * trail.scale,
+        height: height * trail.scale,
+        color: `hsla(120, 100%, 50%, ${0.25 / i})`
+      });
+    }
+  }
+
+  // Magnet field around the player
+  const magnetRing = hasPowerUp(player, 'magnet')
+    ? { x: point.x, y: point.y, radius: (55 + Math.sin(frame * 0.15) * 8) * point.scale }
+    : null;
+
+  return {
+    kind: 'player',
+    ahead: 0,
+    shadow,
+    afterimages,
+    magnetRing,
+    sprite: {
+      name: playerSprite(player),
+      shape: { kind: 'player', height },
+      x: point.x,
+      y: point.y,
+      scale: point.scale,
+      width: PLAYER_WIDTH,
+      height,
+      rotation: 0,
+      spin: 0,
+      // Flash while invulnerable after a hit
+      alpha: player.isInvulnerable && Math.floor(frame / 4) % 2 === 0 ? 0.3 : 1
+    }
+  };
+};
+
+const layoutHud = (player: Player): HudLayout => {
+  const health = player.health / player.maxHealth;
+  return {
+    health,
+    healthColor: health > 0.6 ? 'hsl(120, 100%, 50%)' : health > 0.3 ? 'hsl(45, 100%, 50%)' : 'hsl(0, 100%, 50%)',
+    powerUp: player.powerUpActive && player.powerUpType
+      ? { color: POWER_UP_COLORS[player.powerUpType], fraction: player.powerUpTimer / POWER_UP_DURATION }
+      : null
+  };
+};
+
+/**
+ * Projects a simulation state through the camera. Extras the quality setting
+ * turns off are simply left out of the layout.
+ */
+export const layoutScene = (state: SimulationState, camera: Camera, features: QualityFeatures): SceneLayout => {
+  const { player, obstacles, gameCoins, powerUps, particles, frame } = state;
+  // Distance ahead of the player for a point on the top-down board
+  const playerY = player.y + PLAYER_HEIGHT / 2;
+  const aheadOf = (y: number) => playerY - y;
+
+  const glows: Glow[] = [];
+  // Halos are collected while placing things and drawn together underneath them
+  const addGlow = (point: ScreenPoint, size: number, color: string, alpha: number) => {
+    if (features.glows) glows.push({ x: point.x, y: point.y, radius: size * point.scale, color, alpha });
+  };
+  const items: SceneItem[] = [];
+  const addSprite = (ahead: number, point: ScreenPoint, sprite: Omit<SceneSprite, 'x' | 'y' | 'scale' | 'alpha'>) => {
+    items.push({
+      kind: 'sprite',
+      ahead,
+      sprite: { ...sprite, x: point.x, y: point.y, scale: point.scale, alpha: depthFade(ahead) }
+    });
+  };
+
+  const dots: Dot[] = [];
+  particles.forEach(particle => {
+    const point = project(camera, particle.x, aheadOf(particle.y), PICKUP_LIFT);
+    if (point) {
+      dots.push({ x: point.x, y: point.y, radius: particle.size * point.scale, color: particle.color, alpha: particle.life });
+    }
+  });
+
+  const playerItem = layoutPlayer(camera, player, features, frame);
+
+  // Magnet pull lines from the coins being attracted
+  const magnetLines: Segment[] = [];
+  if (hasPowerUp(player, 'magnet') && playerItem) {
+    const target = playerItem.sprite;
+    gameCoins.forEach(coin => {
+      const { radius } = COIN_STYLES[coin.type];
+      const source = project(camera, coin.x + COIN_SIZE / 2, aheadOf(coin.y + COIN_SIZE / 2), PICKUP_LIFT + radius);
+      if (coin.isAttracted && !coin.collected && source) {
+        magnetLines.push({ from: source, to: { x: target.x, y: target.y, scale: target.scale }, width: 2, alpha: 1 });
+      }
+    });
+  }
+
+  powerUps.forEach(powerUp => {
+    if (powerUp.collected) return;
+    const ahead = aheadOf(powerUp.y + POWER_UP_SIZE / 2);
+    const point = project(camera, powerUp.x + POWER_UP_SIZE / 2, ahead, PICKUP_LIFT + POWER_UP_SIZE / 2);
+    if (!point) return;
+    addGlow(point, POWER_UP_SIZE / 2 + 20, POWER_UP_COLORS[powerUp.type], depthFade(ahead));
+    addSprite(ahead, point, {
+      name: powerUpSprite(powerUp.type),
+      shape: { kind: 'powerUp', type: powerUp.type },
+      width: POWER_UP_SIZE,
+      height: POWER_UP_SIZE,
+      rotation: powerUp.rotation,
+      spin: 0
+    });
+  });
+
+  obstacles.forEach(obstacle => {
+    const ahead = aheadOf(obstacle.y + obstacle.height / 2);
+    const { lift, height } = obstacleStand(obstacle.type);
+    const point = project(camera, obstacle.x + obstacle.width / 2, ahead, lift + height / 2);
+    if (!point) return;
+    addGlow(point, Math.max(obstacle.width, height) / 2 + 15, OBSTACLE_COLORS[obstacle.type], depthFade(ahead));
+    addSprite(ahead, point, {
+      name: obstacleSprite(obstacle.type),
+      shape: { kind: 'obstacle', obstacle: { type: obstacle.type, width: obstacle.width, height } },
+      width: obstacle.width,
+      height,
+      rotation: obstacle.rotation,
+      spin: 0
+    });
+  });
+
+  gameCoins.forEach(coin => {
+    if (coin.collected) return;
+    const ahead = aheadOf(coin.y + COIN_SIZE / 2);
+    const { color, radius } = COIN_STYLES[coin.type];
+    const point = project(camera, coin.x + COIN_SIZE / 2, ahead, PICKUP_LIFT + radius);
+    if (!point) return;
+    addGlow(point, radius + 20, color, depthFade(ahead));
+    addSprite(ahead, point, {
+      name: coinSprite(coin.type),
+      shape: { kind: 'coin', type: coin.type },
+      width: radius * 2,
+      height: radius * 2,
+      rotation: 0,
+      spin: coin.rotation
+    });
+  });
+
+  if (playerItem) {
+    const glowColor = playerGlowColor(player, frame);
+    if (glowColor) addGlow(playerItem.sprite, playerHeight(player) / 2 + 30, glowColor, 1);
+    items.push(playerItem);
+  }
+
+  return {
+    time: frame * 0.02,
+    // Sprite animations run on simulation time so replays look the same
+    spriteTime: frame * FRAME_TIME,
+    dashes: layoutDashes(camera, state.distance),
+    streaks: features.effects && hasPowerUp(player, 'speed') ? layoutStreaks(camera, frame) : [],
+    particles: dots,
+    magnetLines,
+    glows,
+    items: items.sort((a, b) => b.ahead - a.ahead),
+    hud: layoutHud(player)
+  };
+};
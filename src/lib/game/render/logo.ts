@@ -0,0 +1,78 @@
+// The menu logo, a runner in a glowing badge whose arms and legs swing with `frame`
+export const drawLogo = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, frame: number) => {
+  ctx.save();
+  ctx.translate(x, y);
+
+  // Logo background circle with glow
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, size);
+  gradient.addColorStop(0, 'hsl(270, 100%, 75%)');
+  gradient.addColorStop(0.7, 'hsl(270, 100%, 55%)');
+  gradient.addColorStop(1, 'hsl(270, 100%, 35%)');
+
+  ctx.shadowColor = 'hsl(270, 100%, 65%)';
+  ctx.shadowBlur = 20;
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(0, 0, size, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  // Inner circle
+  ctx.fillStyle = 'hsl(270, 100%, 85%)';
+  ctx.beginPath();
+  ctx.arc(0, 0, size * 0.7, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Runner figure
+  ctx.fillStyle = 'hsl(270, 100%, 25%)';
+
+  // Head
+  ctx.beginPath();
+  ctx.arc(0, -size * 0.3, size * 0.15, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Body
+  ctx.fillRect(-size * 0.1, -size * 0.1, size * 0.2, size * 0.4);
+
+  // Arms (running pose)
+  ctx.save();
+  ctx.translate(-size * 0.15, -size * 0.05);
+  ctx.rotate(Math.sin(frame * 0.1) * 0.3);
+  ctx.fillRect(-size * 0.05, -size * 0.15, size * 0.1, size * 0.3);
+  ctx.restore();
+
+  ctx.save();
+  ctx.translate(size * 0.15, -size * 0.05);
+  ctx.rotate(-Math.sin(frame * 0.1) * 0.3);
+  ctx.fillRect(-size * 0.05, -size * 0.15, size * 0.1, size * 0.3);
+  ctx.restore();
+
+  // Legs (running pose)
+  ctx.save();
+  ctx.translate(-size * 0.08, size * 0.15);
+  ctx.rotate(Math.sin(frame * 0.1 + 1) * 0.4);
+  ctx.fillRect(-size * 0.06, -size * 0.25, size * 0.12, size * 0.25);
+  ctx.restore();
+
+  ctx.save();
+  ctx.translate(size * 0.08, size * 0.15);
+  ctx.rotate(-Math.sin(frame * 0.1 + 1) * 0.4);
+  ctx.fillRect(-size * 0.06, -size * 0.25, size * 0.12, size * 0.25);
+  ctx.restore();
+
+  // Speed lines
+  ctx.strokeStyle = 'hsl(270, 100%, 75%)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 5]);
+
+  for (let i = 0; i < 3; i++) {
+    ctx.beginPath();
+    ctx.moveTo(-size * 0.8 + i * size * 0.1, -size * 0.3 + i * size * 0.1);
+    ctx.lineTo(-size * 1.2 + i * size * 0.1, -size * 0.1 + i * size * 0.1);
+    ctx.stroke();
+  }
+
+  ctx.setLineDash([]);
+
+  ctx.restore();
+};
@@ -0,0 +1,24 @@
+import type { CoinType, ObstacleType, PowerUpType } from '../types';
+
+export const POWER_UP_COLORS: Record<PowerUpType, string> = {
+  shield: 'hsl(195, 100%, 55%)',
+  speed: 'hsl(120, 100%, 50%)',
+  magnet: 'hsl(45, 100%, 60%)',
+  health: 'hsl(0, 100%, 50%)'
+};
+
+export const OBSTACLE_COLORS: Record<ObstacleType, string> = {
+  barrier: 'hsl(0, 84%, 60%)',
+  train: 'hsl(240, 50%, 30%)',
+  tunnel: 'hsl(30, 80%, 40%)',
+  spike: 'hsl(0, 100%, 40%)',
+  laser: 'hsl(0, 100%, 60%)'
+};
+
+export const COIN_STYLES: Record<CoinType, { color: string; radius: number }> = {
+  normal: { color: 'hsl(45, 100%, 60%)', radius: 15 },
+  gold: { color: 'hsl(45, 100%, 50%)', radius: 18 },
+  diamond: { color: 'hsl(195, 100%, 70%)', radius: 20 }
+};
+
+export const PLAYER_COLOR = 'hsl(270, 100%, 65%)';
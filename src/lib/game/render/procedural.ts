@@ -0,0 +1,116 @@
+import { PLAYER_WIDTH } from '../constants';
+import type { CoinType, PowerUpType } from '../types';
+import type { ObstacleOutline, Shape } from './layout';
+import { COIN_STYLES, OBSTACLE_COLORS, PLAYER_COLOR, POWER_UP_COLORS } from './palette';
+
+// The original hand-drawn shapes, used whenever a sprite is unavailable. Each
+// draws centred on the current origin; glow is left to the caller.
+
+export const drawPowerUpShape = (ctx: CanvasRenderingContext2D, type: PowerUpType) => {
+  ctx.fillStyle = POWER_UP_COLORS[type];
+
+  if (type === 'shield') {
+    ctx.beginPath();
+    ctx.arc(0, 0, 20, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  } else if (type === 'speed') {
+    ctx.fillRect(-15, -15, 30, 30);
+  } else if (type === 'magnet') {
+    ctx.beginPath();
+    ctx.moveTo(-15, 15);
+    ctx.lineTo(0, -15);
+    ctx.lineTo(15, 15);
+    ctx.closePath();
+    ctx.fill();
+  } else if (type === 'health') {
+    ctx.beginPath();
+    ctx.moveTo(0, -15);
+    ctx.lineTo(10, -5);
+    ctx.lineTo(15, 0);
+    ctx.lineTo(10, 5);
+    ctx.lineTo(0, 15);
+    ctx.lineTo(-10, 5);
+    ctx.lineTo(-15, 0);
+    ctx.lineTo(-10, -5);
+    ctx.closePath();
+    ctx.fill();
+  }
+};
+
+export const drawObstacleShape = (ctx: CanvasRenderingContext2D, obstacle: ObstacleOutline) => {
+  ctx.fillStyle = OBSTACLE_COLORS[obstacle.type];
+
+  if (obstacle.type === 'spike') {
+    ctx.beginPath();
+    ctx.moveTo(0, -obstacle.height / 2);
+    ctx.lineTo(-obstacle.width / 2, obstacle.height / 2);
+    ctx.lineTo(obstacle.width / 2, obstacle.height / 2);
+    ctx.closePath();
+    ctx.fill();
+  } else if (obstacle.type === 'laser') {
+    ctx.fillRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
+    // Add laser beam effect
+    ctx.strokeStyle = 'hsl(0, 100%, 80%)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(-obstacle.width / 2, 0);
+    ctx.lineTo(obstacle.width / 2, 0);
+    ctx.stroke();
+  } else {
+    ctx.fillRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
+  }
+};
+
+export const drawCoinShape = (ctx: CanvasRenderingContext2D, type: CoinType) => {
+  const { color, radius } = COIN_STYLES[type];
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Add shine effect
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.beginPath();
+  ctx.arc(-radius * 0.3, -radius * 0.3, radius * 0.3, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+export const drawPlayerShape = (ctx: CanvasRenderingContext2D, height: number) => {
+  // Player body
+  ctx.fillStyle = PLAYER_COLOR;
+  ctx.fillRect(-PLAYER_WIDTH / 2, -height / 2, PLAYER_WIDTH, height);
+
+  // Player details
+  ctx.fillStyle = 'hsl(270, 100%, 45%)';
+  ctx.fillRect(-PLAYER_WIDTH / 2 + 5, -height / 2 + 5, PLAYER_WIDTH - 10, 10);
+
+  // Eyes
+  ctx.fillStyle = 'white';
+  ctx.beginPath();
+  ctx.arc(-8, -height / 2 + 15, 4, 0, Math.PI * 2);
+  ctx.arc(8, -height / 2 + 15, 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = 'black';
+  ctx.beginPath();
+  ctx.arc(-8, -height / 2 + 15, 2, 0, Math.PI * 2);
+  ctx.arc(8, -height / 2 + 15, 2, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Draws the built-in shape a scene sprite falls back to
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+  switch (shape.kind) {
+    case 'powerUp':
+      return drawPowerUpShape(ctx, shape.type);
+    case 'obstacle':
+      return drawObstacleShape(ctx, shape.obstacle);
+    case 'coin':
+      return drawCoinShape(ctx, shape.type);
+    case 'player':
+      return drawPlayerShape(ctx, shape.height);
+  }
+};
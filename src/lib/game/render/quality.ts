@@ -0,0 +1,63 @@
+export type RenderQuality = 'low' | 'medium' | 'high';
+
+// Lowest first, the order quality is stepped down in
+export const RENDER_QUALITIES: RenderQuality[] = ['low', 'medium', 'high'];
+export const DEFAULT_RENDER_QUALITY: RenderQuality = 'high';
+
+export const QUALITY_LABELS: Record<RenderQuality, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+export interface QualityFeatures {
+  stars: number;
+  animatedSky: boolean; // sky colours drift, redrawing the cached sky every few frames
+  glows: boolean; // halos around pickups, obstacles, the track edges and the powered-up player
+  effects: boolean; // speed streaks, afterimages and the jump shadow
+}
+
+export const QUALITY_FEATURES: Record<RenderQuality, QualityFeatures> = {
+  low: { stars: 0, animatedSky: false, glows: false, effects: false },
+  medium: { stars: 30, animatedSky: false, glows: true, effects: false },
+  high: { stars: 50, animatedSky: true, glows: true, effects: true }
+};
+
+// Time a frame may spend drawing, half a 60Hz frame so the rest is left for the simulation and the browser
+export const FRAME_BUDGET = 8;
+// How many frames in a row the average must stay over budget before quality drops
+export const SLOW_FRAME_LIMIT = 90;
+// Weight of the newest frame in the running average
+const SMOOTHING = 0.1;
+
+export const isRenderQuality = (value: unknown): value is RenderQuality =>
+  RENDER_QUALITIES.includes(value as RenderQuality);
+
+// The next quality down, or the same one when already at the lowest
+export const lowerQuality = (quality: RenderQuality) =>
+  RENDER_QUALITIES[Math.max(RENDER_QUALITIES.indexOf(quality) - 1, 0)];
+
+export interface FrameTimeMonitor {
+  average: number;
+  slowFrames: number;
+}
+
+export const createFrameTimeMonitor = (): FrameTimeMonitor => ({
+  average: 0,
+  slowFrames: 0
+});
+
+/**
+ * Feeds in how long a frame took to draw. Returns true once drawing has stayed
+ * over budget for long enough that quality should drop, and starts counting
+ * afresh so the lower quality gets a fair measurement before the next drop.
+ */
+export const recordFrameTime = (monitor: FrameTimeMonitor, time: number) => {
+  monitor.average = monitor.average === 0 ? time : monitor.average + (time - monitor.average) * SMOOTHING;
+  monitor.slowFrames = monitor.average > FRAME_BUDGET ? monitor.slowFrames + 1 : 0;
+
+  if (monitor.slowFrames < SLOW_FRAME_LIMIT) return false;
+  monitor.average = 0;
+  monitor.slowFrames = 0;
+  return true;
+};
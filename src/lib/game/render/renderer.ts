@@ -0,0 +1,46 @@
+import type { SimulationState } from '../types';
+import type { SpriteAtlas } from './atlas';
+import type { Camera } from './camera';
+import { createCanvas2DRenderer } from './canvas2d';
+import type { RenderQuality } from './quality';
+import { createWebGLRenderer } from './webgl';
+
+export type RendererBackend = 'canvas2d' | 'webgl';
+
+export const RENDERER_BACKENDS: RendererBackend[] = ['canvas2d', 'webgl'];
+export const DEFAULT_RENDERER_BACKEND: RendererBackend = 'canvas2d';
+
+export const BACKEND_LABELS: Record<RendererBackend, string> = {
+  canvas2d: 'Canvas 2D',
+  webgl: 'WebGL'
+};
+
+export const isRendererBackend = (value: unknown): value is RendererBackend =>
+  RENDERER_BACKENDS.includes(value as RendererBackend);
+
+export interface FrameOptions {
+  atlas: SpriteAtlas | null;
+  camera: Camera;
+  quality: RenderQuality;
+  showHud: boolean;
+}
+
+/**
+ * Draws simulation states onto the canvas it was created for. Each backend
+ * draws the same scene layout, so they differ only in speed and in effects a
+ * backend cannot reproduce exactly.
+ */
+export interface Renderer {
+  backend: RendererBackend;
+  draw: (state: SimulationState, options: FrameOptions) => void;
+  // Frees GPU and offscreen resources; the renderer must not be used afterwards
+  dispose: () => void;
+}
+
+/**
+ * Creates a renderer for a fresh canvas, or null when the backend cannot run
+ * there. A canvas keeps the first kind of context it hands out, so switching
+ * backends, including falling back after a failure, needs a new canvas element.
+ */
+export const createRenderer = (canvas: HTMLCanvasElement, backend: RendererBackend): Renderer | null =>
+  backend === 'webgl' ? createWebGLRenderer(canvas) : createCanvas2DRenderer(canvas);
@@ -0,0 +1,47 @@
+import type { CoinType, ObstacleType, Player, PowerUpType } from '../types';
+import { resolveFrame, type SpriteAtlas } from './atlas';
+
+// Sprite names the renderer asks the atlas for
+export const playerSprite = (player: Player) => {
+  if (player.isSliding) return 'player-slide';
+  if (player.jumpHeight > player.surfaceHeight) return 'player-jump';
+  return 'player-run';
+};
+export const obstacleSprite = (type: ObstacleType) => `obstacle-${type}`;
+export const coinSprite = (type: CoinType) => `coin-${type}`;
+export const powerUpSprite = (type: PowerUpType) => `powerup-${type}`;
+
+// Draws a sprite or animation into the rect; false when the atlas lacks it
+export const drawSprite = (
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas,
+  name: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  time: number
+) => {
+  const frame = resolveFrame(atlas, name, time);
+  if (!frame) return false;
+
+  ctx.drawImage(atlas.image, frame.x, frame.y, frame.w, frame.h, x, y, width, height);
+  return true;
+};
+
+/**
+ * Draws a sprite centred on the current origin, or runs the procedural
+ * fallback when there is no atlas or it has no such sprite.
+ */
+export const drawSpriteOr = (
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas | null,
+  name: string,
+  width: number,
+  height: number,
+  time: number,
+  fallback: () => void
+) => {
+  if (atlas && drawSprite(ctx, atlas, name, -width / 2, -height / 2, width, height, time)) return;
+  fallback();
+};
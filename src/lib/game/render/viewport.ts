@@ -0,0 +1,74 @@
+import { GAME_HEIGHT, GAME_WIDTH } from '../constants';
+
+export type Orientation = 'landscape' | 'portrait';
+
+// The size of the drawn view in view units, which are world units at the player in landscape
+export interface ViewSize {
+  width: number;
+  height: number;
+}
+
+export const VIEW_SIZES: Record<Orientation, ViewSize> = {
+  landscape: { width: GAME_WIDTH, height: GAME_HEIGHT },
+  portrait: { width: GAME_HEIGHT, height: GAME_WIDTH }
+};
+
+// Beyond this, extra device pixels cost fill rate without looking any sharper
+export const MAX_PIXEL_RATIO = 3;
+
+/**
+ * Where and how sharply the view is drawn. The canvas is laid out at
+ * `cssWidth` by `cssHeight` CSS pixels and its backing store holds
+ * `pixelWidth` by `pixelHeight` device pixels.
+ */
+export interface Viewport {
+  orientation: Orientation;
+  view: ViewSize;
+  pixelRatio: number; // device pixels per CSS pixel
+  cssWidth: number;
+  cssHeight: number;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = {
+  orientation: 'landscape',
+  view: VIEW_SIZES.landscape,
+  pixelRatio: 1,
+  cssWidth: GAME_WIDTH,
+  cssHeight: GAME_HEIGHT,
+  pixelWidth: GAME_WIDTH,
+  pixelHeight: GAME_HEIGHT
+};
+
+/**
+ * Fits the view inside a container, letterboxed to keep its aspect ratio.
+ * Containers taller than they are wide get the portrait view, so the track
+ * is laid out for a phone held upright rather than shrunk into a strip.
+ */
+export const fitViewport = (containerWidth: number, containerHeight: number, devicePixelRatio: number): Viewport => {
+  const orientation: Orientation = containerHeight > containerWidth ? 'portrait' : 'landscape';
+  const view = VIEW_SIZES[orientation];
+  const cssScale = Math.max(Math.min(containerWidth / view.width, containerHeight / view.height), 0);
+  const cssWidth = Math.floor(view.width * cssScale);
+  const cssHeight = Math.floor(view.height * cssScale);
+  const pixelRatio = Math.min(Math.max(devicePixelRatio, 1), MAX_PIXEL_RATIO);
+
+  return {
+    orientation,
+    view,
+    pixelRatio,
+    cssWidth,
+    cssHeight,
+    pixelWidth: Math.max(Math.round(cssWidth * pixelRatio), 1),
+    pixelHeight: Math.max(Math.round(cssHeight * pixelRatio), 1)
+  };
+};
+
+export const sameViewport = (a: Viewport, b: Viewport) =>
+  a.orientation === b.orientation &&
+  a.pixelRatio === b.pixelRatio &&
+  a.cssWidth === b.cssWidth &&
+  a.cssHeight === b.cssHeight &&
+  a.pixelWidth === b.pixelWidth &&
+  a.pixelHeight === b.pixelHeight;
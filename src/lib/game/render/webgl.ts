@@ -0,0 +1,603 @@
+import { PLAYER_HEIGHT, PLAYER_WIDTH, POWER_UP_SIZE } from '../constants';
+import { OBSTACLE_RULES } from '../obstacles';
+import type { CoinType, ObstacleType, PowerUpType, SimulationState } from '../types';
+import { resolveFrameName, type SpriteAtlas } from './atlas';
+import { createBackdrop, refreshBackdrop, starOffset } from './backdrop';
+import type { CachedLayer } from './layers';
+import {
+  HUD_BAR,
+  LANE_DASH_COLOR,
+  layoutScene,
+  MAGNET_LINE_COLOR,
+  MAGNET_RING_COLOR,
+  obstacleStand,
+  SHADOW_COLOR,
+  SLIDING_HEIGHT,
+  STREAK_COLOR,
+  type HudLayout,
+  type SceneItem,
+  type SceneSprite,
+  type Segment,
+  type Shape
+} from './layout';
+import { COIN_STYLES, POWER_UP_COLORS } from './palette';
+import { drawShape } from './procedural';
+import { QUALITY_FEATURES } from './quality';
+import type { FrameOptions, Renderer } from './renderer';
+import { coinSprite, obstacleSprite, powerUpSprite } from './sprites';
+import type { ViewSize } from './viewport';
+
+// Every quad is one instance of a unit square, placed, sized, turned, textured and tinted per instance
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec2 a_center;
+in vec2 a_size;
+in float a_rotation;
+in vec4 a_uv;
+in vec4 a_color;
+uniform vec2 u_resolution;
+out vec2 v_uv;
+out vec4 v_color;
+
+void main() {
+  float c = cos(a_rotation);
+  float s = sin(a_rotation);
+  vec2 local = a_corner * a_size;
+  vec2 position = a_center + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = mix(a_uv.xy, a_uv.zw, a_corner + 0.5);
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+in vec4 v_color;
+uniform sampler2D u_texture;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_uv) * v_color;
+}`;
+
+// centre xy, size wh, rotation, uv rect, premultiplied rgba
+const FLOATS_PER_QUAD = 13;
+const INITIAL_QUADS = 1024;
+
+const SHEET_WIDTH = 1024;
+// Shapes are baked at twice their world size so they stay sharp when scaled up close to the camera
+const BAKE_SCALE = 2;
+// Room around a baked shape for strokes that spill past its nominal size
+const SHAPE_MARGIN = 4;
+// Gap between sheet cells so filtering does not bleed one into another
+const CELL_PADDING = 2;
+
+type Rgba = [number, number, number, number];
+
+interface Region {
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+  width: number; // world units the region covers, for baked shapes
+  height: number;
+}
+
+// One texture holding the sprite atlas frames, the baked shapes and the plain shapes quads are tinted from
+interface Sheet {
+  texture: WebGLTexture;
+  atlas: SpriteAtlas | null;
+  regions: Map<string, Region>;
+}
+
+interface Cell {
+  key: string;
+  width: number; // pixels
+  height: number;
+  worldWidth: number;
+  worldHeight: number;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+}
+
+interface QuadBatch {
+  data: Float32Array;
+  count: number;
+}
+
+interface Resources {
+  program: WebGLProgram;
+  vao: WebGLVertexArrayObject;
+  cornerBuffer: WebGLBuffer;
+  instanceBuffer: WebGLBuffer;
+  resolution: WebGLUniformLocation | null;
+  sheet: Sheet | null;
+  layers: Map<CachedLayer, { texture: WebGLTexture; version: number }>;
+}
+
+const FULL_REGION: Region = { u0: 0, v0: 0, u1: 1, v1: 1, width: 0, height: 0 };
+
+const colorCache = new Map<string, Rgba>();
+let colorProbe: CanvasRenderingContext2D | null = null;
+
+// Resolves any CSS colour to RGBA in 0..1 by painting it on a 1x1 canvas, once per colour
+const parseColor = (color: string): Rgba => {
+  const cached = colorCache.get(color);
+  if (cached) return cached;
+
+  if (!colorProbe) {
+    const probe = document.createElement('canvas');
+    probe.width = 1;
+    probe.height = 1;
+    colorProbe = probe.getContext('2d', { willReadFrequently: true });
+  }
+  let rgba: Rgba = [1, 1, 1, 1];
+  if (colorProbe) {
+    colorProbe.clearRect(0, 0, 1, 1);
+    colorProbe.fillStyle = color;
+    colorProbe.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = colorProbe.getImageData(0, 0, 1, 1).data;
+    rgba = [r / 255, g / 255, b / 255, a / 255];
+  }
+  colorCache.set(color, rgba);
+  return rgba;
+};
+
+const WHITE: Rgba = [1, 1, 1, 1];
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn('WebGL shader failed to compile:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('WebGL program failed to link:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+const createTexture = (gl: WebGL2RenderingContext, source: TexImageSource) => {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const setUpResources = (gl: WebGL2RenderingContext): Resources | null => {
+  const program = createProgram(gl);
+  const vao = gl.createVertexArray();
+  const cornerBuffer = gl.createBuffer();
+  const instanceBuffer = gl.createBuffer();
+  if (!program || !vao || !cornerBuffer || !instanceBuffer) return null;
+
+  gl.bindVertexArray(vao);
+
+  // Two triangles covering the unit square
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-0.5, -0.5, 0.5, -0.5, -0.5, 0.5, -0.5, 0.5, 0.5, -0.5, 0.5, 0.5]),
+    gl.STATIC_DRAW
+  );
+  const corner = gl.getAttribLocation(program, 'a_corner');
+  gl.enableVertexAttribArray(corner);
+  gl.vertexAttribPointer(corner, 2, gl.FLOAT, false, 0, 0);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = FLOATS_PER_QUAD * 4;
+  const attributes: [string, number, number][] = [
+    ['a_center', 2, 0],
+    ['a_size', 2, 2],
+    ['a_rotation', 1, 4],
+    ['a_uv', 4, 5],
+    ['a_color', 4, 9]
+  ];
+  attributes.forEach(([name, size, offset]) => {
+    const location = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+  });
+  gl.bindVertexArray(null);
+
+  return {
+    program,
+    vao,
+    cornerBuffer,
+    instanceBuffer,
+    resolution: gl.getUniformLocation(program, 'u_resolution'),
+    sheet: null,
+    layers: new Map()
+  };
+};
+
+const freeResources = (gl: WebGL2RenderingContext, resources: Resources) => {
+  gl.deleteProgram(resources.program);
+  gl.deleteVertexArray(resources.vao);
+  gl.deleteBuffer(resources.cornerBuffer);
+  gl.deleteBuffer(resources.instanceBuffer);
+  if (resources.sheet) gl.deleteTexture(resources.sheet.texture);
+  resources.layers.forEach(({ texture }) => gl.deleteTexture(texture));
+};
+
+const shapeCell = (name: string, shape: Shape, width: number, height: number): Cell => {
+  const worldWidth = width + SHAPE_MARGIN * 2;
+  const worldHeight = height + SHAPE_MARGIN * 2;
+  return {
+    key: `shape:${name}`,
+    width: Math.ceil(worldWidth * BAKE_SCALE),
+    height: Math.ceil(worldHeight * BAKE_SCALE),
+    worldWidth,
+    worldHeight,
+    draw: (ctx) => {
+      ctx.translate((worldWidth * BAKE_SCALE) / 2, (worldHeight * BAKE_SCALE) / 2);
+      ctx.scale(BAKE_SCALE, BAKE_SCALE);
+      drawShape(ctx, shape);
+    }
+  };
+};
+
+// The built-in shape for every sprite name, used for whatever the atlas lacks
+const shapeCells = (): Cell[] => [
+  ...(Object.keys(POWER_UP_COLORS) as PowerUpType[]).map(type =>
+    shapeCell(powerUpSprite(type), { kind: 'powerUp', type }, POWER_UP_SIZE, POWER_UP_SIZE)
+  ),
+  ...(Object.keys(OBSTACLE_RULES) as ObstacleType[]).map(type => {
+    const { width } = OBSTACLE_RULES[type];
+    const { height } = obstacleStand(type);
+    return shapeCell(obstacleSprite(type), { kind: 'obstacle', obstacle: { type, width, height } }, width, height);
+  }),
+  ...(Object.keys(COIN_STYLES) as CoinType[]).map(type => {
+    const size = COIN_STYLES[type].radius * 2;
+    return shapeCell(coinSprite(type), { kind: 'coin', type }, size, size);
+  }),
+  shapeCell('player-run', { kind: 'player', height: PLAYER_HEIGHT }, PLAYER_WIDTH, PLAYER_HEIGHT),
+  shapeCell('player-jump', { kind: 'player', height: PLAYER_HEIGHT }, PLAYER_WIDTH, PLAYER_HEIGHT),
+  shapeCell('player-slide', { kind: 'player', height: SLIDING_HEIGHT }, PLAYER_WIDTH, SLIDING_HEIGHT)
+];
+
+// Plain white shapes that quads are tinted from
+const PLAIN_CELLS: Cell[] = [
+  { key: 'white', width: 4, height: 4, worldWidth: 0, worldHeight: 0, draw: (ctx) => {
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, 4, 4);
+  } },
+  { key: 'dot', width: 64, height: 64, worldWidth: 0, worldHeight: 0, draw: (ctx) => {
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    ctx.arc(32, 32, 31, 0, Math.PI * 2);
+    ctx.fill();
+  } },
+  { key: 'glow', width: 64, height: 64, worldWidth: 0, worldHeight: 0, draw: (ctx) => {
+    const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+    gradient.addColorStop(0, 'white');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 64, 64);
+  } },
+  { key: 'ring', width: 128, height: 128, worldWidth: 0, worldHeight: 0, draw: (ctx) => {
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(64, 64, 62, 0, Math.PI * 2);
+    ctx.stroke();
+  } }
+];
+
+const atlasCells = (atlas: SpriteAtlas | null): Cell[] =>
+  atlas
+    ? Object.entries(atlas.data.frames).map(([name, frame]) => ({
+        key: `frame:${name}`,
+        width: frame.w,
+        height: frame.h,
+        worldWidth: 0,
+        worldHeight: 0,
+        draw: (ctx) => ctx.drawImage(atlas.image, frame.x, frame.y, frame.w, frame.h, 0, 0, frame.w, frame.h)
+      }))
+    : [];
+
+// Packs cells into rows on one canvas and uploads it
+const buildSheet = (gl: WebGL2RenderingContext, atlas: SpriteAtlas | null): Sheet | null => {
+  const cells = [...PLAIN_CELLS, ...shapeCells(), ...atlasCells(atlas)];
+  const placed: { cell: Cell; x: number; y: number }[] = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  cells.forEach(cell => {
+    if (x + cell.width > SHEET_WIDTH) {
+      x = 0;
+      y += rowHeight + CELL_PADDING;
+      rowHeight = 0;
+    }
+    placed.push({ cell, x, y });
+    x += cell.width + CELL_PADDING;
+    rowHeight = Math.max(rowHeight, cell.height);
+  });
+  const height = y + rowHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SHEET_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const regions = new Map<string, Region>();
+  placed.forEach(({ cell, x, y }) => {
+    ctx.save();
+    ctx.translate(x, y);
+    cell.draw(ctx);
+    ctx.restore();
+    // Sample half a pixel in from the edges so neighbours never blend in
+    regions.set(cell.key, {
+      u0: (x + 0.5) / SHEET_WIDTH,
+      v0: (y + 0.5) / height,
+      u1: (x + cell.width - 0.5) / SHEET_WIDTH,
+      v1: (y + cell.height - 0.5) / height,
+      width: cell.worldWidth,
+      height: cell.worldHeight
+    });
+  });
+
+  const texture = createTexture(gl, canvas);
+  return texture ? { texture, atlas, regions } : null;
+};
+
+const pushQuad = (
+  batch: QuadBatch,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rotation: number,
+  region: Region,
+  [r, g, b, a]: Rgba,
+  alpha: number = 1
+) => {
+  if ((batch.count + 1) * FLOATS_PER_QUAD > batch.data.length) {
+    const grown = new Float32Array(batch.data.length * 2);
+    grown.set(batch.data);
+    batch.data = grown;
+  }
+  const opacity = a * alpha;
+  batch.data.set(
+    [x, y, width, height, rotation, region.u0, region.v0, region.u1, region.v1, r * opacity, g * opacity, b * opacity, opacity],
+    batch.count * FLOATS_PER_QUAD
+  );
+  batch.count++;
+};
+
+// A line as a thin quad turned to lie along it; `thickness` overrides its perspective width
+const pushSegment = (batch: QuadBatch, region: Region, segment: Segment, color: Rgba, thickness?: number) => {
+  const { from, to } = segment;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  pushQuad(
+    batch,
+    (from.x + to.x) / 2,
+    (from.y + to.y) / 2,
+    Math.hypot(dx, dy),
+    thickness ?? (segment.width * (from.scale + to.scale)) / 2,
+    Math.atan2(dy, dx),
+    region,
+    color,
+    segment.alpha
+  );
+};
+
+const pushSprite = (batch: QuadBatch, sheet: Sheet, atlas: SpriteAtlas | null, sprite: SceneSprite, time: number) => {
+  const frame = atlas && sheet.atlas === atlas ? resolveFrameName(atlas, sprite.name, time) : undefined;
+  const frameRegion = frame === undefined ? undefined : sheet.regions.get(`frame:${frame}`);
+  if (frameRegion) {
+    pushQuad(batch, sprite.x, sprite.y, sprite.width * sprite.scale, sprite.height * sprite.scale, sprite.rotation, frameRegion, WHITE, sprite.alpha);
+    return;
+  }
+
+  const shape = sheet.regions.get(`shape:${sprite.name}`);
+  if (!shape) return;
+  pushQuad(
+    batch,
+    sprite.x,
+    sprite.y,
+    shape.width * sprite.scale,
+    shape.height * sprite.scale,
+    sprite.rotation + sprite.spin,
+    shape,
+    WHITE,
+    sprite.alpha
+  );
+};
+
+const pushItem = (batch: QuadBatch, sheet: Sheet, atlas: SpriteAtlas | null, item: SceneItem, time: number) => {
+  const region = (key: string) => sheet.regions.get(key) ?? FULL_REGION;
+
+  if (item.kind === 'player') {
+    if (item.shadow) {
+      const { x, y, radiusX, radiusY } = item.shadow;
+      pushQuad(batch, x, y, radiusX * 2, radiusY * 2, 0, region('dot'), parseColor(SHADOW_COLOR));
+    }
+    item.afterimages.forEach(quad => {
+      pushQuad(batch, quad.x + quad.width / 2, quad.y + quad.height / 2, quad.width, quad.height, 0, region('white'), parseColor(quad.color));
+    });
+    if (item.magnetRing) {
+      const { x, y, radius } = item.magnetRing;
+      pushQuad(batch, x, y, radius * 2, radius * 2, 0, region('ring'), parseColor(MAGNET_RING_COLOR));
+    }
+  }
+  pushSprite(batch, sheet, atlas, item.sprite, time);
+};
+
+const pushHud = (batch: QuadBatch, white: Region, hud: HudLayout) => {
+  const { x, y, width, height } = HUD_BAR;
+  const rect = (left: number, top: number, w: number, h: number, color: Rgba) =>
+    pushQuad(batch, left + w / 2, top + h / 2, w, h, 0, white, color);
+
+  rect(x, y, width, height, parseColor('rgba(0, 0, 0, 0.5)'));
+  rect(x + 2, y + 2, (width - 4) * hud.health, height - 4, parseColor(hud.healthColor));
+
+  // Two pixel border centred on the bar's edge, as strokeRect draws it
+  const border = parseColor('white');
+  rect(x - 1, y - 1, width + 2, 2, border);
+  rect(x - 1, y + height - 1, width + 2, 2, border);
+  rect(x - 1, y + 1, 2, height - 2, border);
+  rect(x + width - 1, y + 1, 2, height - 2, border);
+
+  if (hud.powerUp) {
+    rect(x, y + height + 6, width * hud.powerUp.fraction, 6, parseColor(hud.powerUp.color));
+  }
+};
+
+/**
+ * Draws the scene as instanced quads in a handful of draw calls: the backdrop
+ * layers, lines and particles, additive glows, the sprites far to near and the
+ * HUD. Sprites and shapes share one texture, so a frame never switches texture
+ * outside the backdrop. Magnet pull lines are drawn solid rather than dashed.
+ * Returns null when WebGL 2 or the shaders are unavailable.
+ */
+export const createWebGLRenderer = (canvas: HTMLCanvasElement): Renderer | null => {
+  const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: true });
+  if (!gl) return null;
+
+  let resources = setUpResources(gl);
+  if (!resources) return null;
+
+  const backdrop = createBackdrop();
+  const batch: QuadBatch = { data: new Float32Array(INITIAL_QUADS * FLOATS_PER_QUAD), count: 0 };
+
+  // A lost context takes every GPU resource with it; they are rebuilt when it comes back
+  const handleContextLost = (event: Event) => {
+    event.preventDefault();
+    resources = null;
+  };
+  const handleContextRestored = () => {
+    resources = setUpResources(gl);
+  };
+  canvas.addEventListener('webglcontextlost', handleContextLost);
+  canvas.addEventListener('webglcontextrestored', handleContextRestored);
+
+  const flush = (texture: WebGLTexture, additive: boolean = false) => {
+    if (!resources || batch.count === 0) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, batch.data.subarray(0, batch.count * FLOATS_PER_QUAD), gl.DYNAMIC_DRAW);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.blendFunc(gl.ONE, additive ? gl.ONE : gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, batch.count);
+    batch.count = 0;
+  };
+
+  // Uploads a backdrop layer again only when it has been redrawn
+  const layerTexture = (layer: CachedLayer) => {
+    if (!resources) return null;
+    const uploaded = resources.layers.get(layer);
+    if (uploaded && uploaded.version === layer.version) return uploaded.texture;
+    if (uploaded) gl.deleteTexture(uploaded.texture);
+    const texture = createTexture(gl, layer.canvas);
+    if (texture) resources.layers.set(layer, { texture, version: layer.version });
+    return texture;
+  };
+
+  const drawLayer = (layer: CachedLayer, { width, height }: ViewSize, offsetY: number = 0) => {
+    const texture = layerTexture(layer);
+    if (!texture) return;
+    pushQuad(batch, width / 2, height / 2 + offsetY, width, height, 0, FULL_REGION, WHITE);
+    flush(texture);
+  };
+
+  const draw = (state: SimulationState, { atlas, camera, quality, showHud }: FrameOptions) => {
+    if (!resources || gl.isContextLost()) return;
+    if (!resources.sheet || resources.sheet.atlas !== atlas) {
+      if (resources.sheet) gl.deleteTexture(resources.sheet.texture);
+      resources.sheet = buildSheet(gl, atlas);
+    }
+    const { sheet } = resources;
+    if (!sheet) return;
+
+    const features = QUALITY_FEATURES[quality];
+    const layout = layoutScene(state, camera, features);
+    const region = (key: string) => sheet.regions.get(key) ?? FULL_REGION;
+    const { view } = camera;
+    const pixelRatio = canvas.width / view.width;
+
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(resources.program);
+    gl.bindVertexArray(resources.vao);
+    gl.uniform2f(resources.resolution, view.width, view.height);
+    gl.enable(gl.BLEND);
+
+    refreshBackdrop(backdrop, camera, features, layout.time, pixelRatio);
+    drawLayer(backdrop.sky, view);
+    if (features.stars > 0) {
+      // The star tile wraps within the sky, so everything below the horizon is cut off
+      const offset = starOffset(camera, layout.time);
+      gl.enable(gl.SCISSOR_TEST);
+      const skyHeight = Math.round(camera.horizonY * pixelRatio);
+      gl.scissor(0, canvas.height - skyHeight, canvas.width, skyHeight);
+      drawLayer(backdrop.stars, view, offset);
+      drawLayer(backdrop.stars, view, offset - camera.horizonY);
+      gl.disable(gl.SCISSOR_TEST);
+    }
+    drawLayer(backdrop.track, view);
+
+    const white = region('white');
+    layout.dashes.forEach(dash => pushSegment(batch, white, dash, parseColor(LANE_DASH_COLOR)));
+    layout.streaks.forEach(streak => pushSegment(batch, white, streak, parseColor(STREAK_COLOR)));
+    layout.particles.forEach(particle => {
+      const size = particle.radius * 2;
+      pushQuad(batch, particle.x, particle.y, size, size, 0, region('dot'), parseColor(particle.color), particle.alpha);
+    });
+    layout.magnetLines.forEach(line => pushSegment(batch, white, line, parseColor(MAGNET_LINE_COLOR), 2));
+    flush(sheet.texture);
+
+    layout.glows.forEach(glow => {
+      const size = glow.radius * 2;
+      pushQuad(batch, glow.x, glow.y, size, size, 0, region('glow'), parseColor(glow.color), glow.alpha);
+    });
+    flush(sheet.texture, true);
+
+    layout.items.forEach(item => pushItem(batch, sheet, atlas, item, layout.spriteTime));
+    flush(sheet.texture);
+
+    if (showHud) {
+      pushHud(batch, white, layout.hud);
+      flush(sheet.texture);
+    }
+    gl.bindVertexArray(null);
+  };
+
+  const dispose = () => {
+    canvas.removeEventListener('webglcontextlost', handleContextLost);
+    canvas.removeEventListener('webglcontextrestored', handleContextRestored);
+    if (resources) freeResources(gl, resources);
+    resources = null;
+  };
+
+  return { backend: 'webgl', draw, dispose };
+};
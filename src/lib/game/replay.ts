@@ -0,0 +1,119 @@
+import { FRAME_TIME } from './constants';
+import { createInitialState, step } from './simulation';
+import type { PlayerAction, SimulationState } from './types';
+
+// Pauses are kept for reference only; everything timed runs in simulation
+// steps, so the player's actions alone reproduce the run.
+export type ReplayEvent = PlayerAction | 'pause' | 'resume';
+
+export interface Replay {
+  version: number;
+  seed: number;
+  frameTime: number;
+  length: number; // frames simulated when the run ended
+  events: [frame: number, event: ReplayEvent][]; // ordered by frame
+}
+
+// Bumped whenever the simulation rules change, as older logs would desync
+export const REPLAY_VERSION = 9;
+
+const REPLAY_EVENTS: ReplayEvent[] = [
+  'moveLeft',
+  'moveRight',
+  'jump',
+  'releaseJump',
+  'slide',
+  'pause',
+  'resume'
+];
+
+export const createReplay = (seed: number): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  frameTime: FRAME_TIME,
+  length: 0,
+  events: []
+});
+
+// Events are keyed to the frame of the state they are applied to
+export const recordEvent = (replay: Replay, frame: number, event: ReplayEvent) => {
+  replay.events.push([frame, event]);
+};
+
+const firstEventAt = (replay: Replay, frame: number) => {
+  let low = 0;
+  let high = replay.events.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (replay.events[middle][0] < frame) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+// Applies everything recorded at state.frame, then advances one step
+export const stepReplay = (replay: Replay, state: SimulationState): SimulationState => {
+  const actions: PlayerAction[] = [];
+
+  for (let i = firstEventAt(replay, state.frame); i < replay.events.length; i++) {
+    const [frame, event] = replay.events[i];
+    if (frame !== state.frame) break;
+
+    if (event !== 'pause' && event !== 'resume') {
+      actions.push(event);
+    }
+  }
+
+  return step(state, { actions }, replay.frameTime);
+};
+
+/**
+ * Re-simulates the replay up to the given frame. Passing the state currently on
+ * screen lets forward scrubbing continue from it instead of from the start.
+ */
+export const simulateReplay = (replay: Replay, frame: number, from?: SimulationState): SimulationState => {
+  let state = from && from.frame <= frame ? from : createInitialState(replay.seed);
+  while (state.frame < frame && !state.isGameOver) {
+    state = stepReplay(replay, state);
+  }
+  return state;
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (data?.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data?.version}`);
+  }
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.frameTime !== 'number' ||
+    typeof data.length !== 'number' ||
+    !Array.isArray(data.events) ||
+    !data.events.every(entry =>
+      Array.isArray(entry) && typeof entry[0] === 'number' && REPLAY_EVENTS.includes(entry[1])
+    )
+  ) {
+    throw new Error('Replay file is malformed');
+  }
+  // Steps are fixed, so a log recorded at another rate would desync
+  if (data.frameTime !== FRAME_TIME) {
+    throw new Error(`Unsupported replay frame time: ${data.frameTime}`);
+  }
+  // Playback looks events up by frame, which only works if they are in order
+  if (data.events.some(([frame], index, events) => index > 0 && frame < events[index - 1][0])) {
+    throw new Error('Replay events are out of order');
+  }
+
+  return data as Replay;
+};
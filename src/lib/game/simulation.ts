@@ -0,0 +1,713 @@
+import {
+  COIN_SIZE,
+  COYOTE_TIME,
+  FRAME_TIME,
+  GAME_HEIGHT,
+  HEALTH_RESTORE,
+  INPUT_BUFFER_TIME,
+  LANE_CHANGE_TIME,
+  LANE_WIDTH,
+  MAGNET_PULL,
+  MAGNET_RANGE,
+  OBSTACLE_DAMAGE,
+  PLAYER_HEIGHT,
+  PLAYER_HITBOXES,
+  PLAYER_WIDTH,
+  POWER_UP_DURATION,
+  POWER_UP_SIZE,
+  SCORE_PER_LEVEL,
+  SLIDE_COOLDOWN_FRAMES,
+  SLIDE_FRAMES,
+  SPEED_BOOST_MULTIPLIER,
+  SPEED_SCORE_MULTIPLIER
+} from './constants';
+import { CHUNKS, EMPTY_ROW, cellObstacle, resolveChunk, solveRows, type MoveTiming, type RowTiming } from './chunks';
+import { getDifficulty, type Difficulty } from './difficulty';
+import { OBSTACLE_RULES, canRide, clearsObstacle, type ObstacleRule } from './obstacles';
+import { PHYSICS } from './physics';
+import { createRandom, randomSeed, type Random } from './random';
+import type {
+  Coin,
+  GameEvent,
+  Lane,
+  Obstacle,
+  ObstacleType,
+  Particle,
+  Player,
+  PlayerAction,
+  PowerUp,
+  PowerUpType,
+  SimulationInput,
+  SimulationState
+} from './types';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const laneX = (lane: Lane, width: number) => lane * LANE_WIDTH + LANE_WIDTH / 2 - width / 2;
+
+export const createPlayer = (): Player => ({
+  lane: 1,
+  x: laneX(1, PLAYER_WIDTH),
+  y: GAME_HEIGHT - 100, // Player starts at bottom of screen
+  isJumping: false,
+  isJumpHeld: false,
+  isFastFalling: false,
+  isSliding: false,
+  slideFrames: 0,
+  slideCooldown: 0,
+  jumpHeight: 0,
+  jumpVelocity: 0,
+  surfaceHeight: 0,
+  coyoteTimer: COYOTE_TIME,
+  bufferedAction: null,
+  bufferTimer: 0,
+  health: 100,
+  maxHealth: 100,
+  isInvulnerable: false,
+  invulnerableTimer: 0,
+  powerUpActive: false,
+  powerUpType: null,
+  powerUpTimer: 0
+});
+
+export const createInitialState = (seed: number = randomSeed()): SimulationState => ({
+  seed,
+  randomState: seed,
+  frame: 0,
+  distance: 0,
+  scoreDistance: 0,
+  score: 0,
+  coins: 0,
+  level: 1,
+  isGameOver: false,
+  pendingRows: [],
+  paths: [{ lane: 1, clearFor: 0, readyIn: 0, slideFor: 0, slideReadyIn: 0 }],
+  spawnAt: {
+    obstacle: getDifficulty(1).obstacleSpacing,
+    coin: getDifficulty(1).coinSpacing,
+    powerUp: getDifficulty(1).powerUpSpacing
+  },
+  player: createPlayer(),
+  obstacles: [],
+  gameCoins: [],
+  powerUps: [],
+  particles: [],
+  events: [],
+  nextId: 0
+});
+
+export const hasPowerUp = (player: Player, type: PowerUpType) =>
+  player.powerUpActive && player.powerUpType === type;
+
+// Level including progress towards the next one, for a smooth difficulty ramp
+export const getLevelProgress = (state: SimulationState) => state.scoreDistance / 10 / SCORE_PER_LEVEL + 1;
+
+// Scroll speed in distance per step at the reference frame rate
+export const getScrollSpeed = (state: SimulationState, difficulty: Difficulty = getDifficulty(getLevelProgress(state))) =>
+  difficulty.speed * (hasPowerUp(state.player, 'speed') ? SPEED_BOOST_MULTIPLIER : 1);
+
+// Where the player stands on the track, whatever their height above it
+export const getPlayerFootprint = (player: Player): Rect => ({
+  x: player.x,
+  y: player.y,
+  width: PLAYER_WIDTH,
+  height: PLAYER_HEIGHT
+});
+
+// Hitbox of the player for their current pose, raised while jumping
+export const getPlayerRect = (player: Player): Rect => {
+  const hitbox = player.isSliding ? PLAYER_HITBOXES.sliding : PLAYER_HITBOXES.standing;
+  return {
+    x: player.x + hitbox.offsetX,
+    y: player.y - player.jumpHeight + hitbox.offsetY,
+    width: hitbox.width,
+    height: hitbox.height
+  };
+};
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+const createParticles = (state: SimulationState, random: Random, x: number, y: number, color: string, count: number = 5) => {
+  const particles: Particle[] = [];
+  for (let i = 0; i < count; i++) {
+    particles.push({
+      id: state.nextId++,
+      x,
+      y,
+      vx: (random.next() - 0.5) * 8,
+      vy: (random.next() - 0.5) * 8,
+      life: 1,
+      maxLife: 1,
+      color,
+      size: random.next() * 3 + 2
+    });
+  }
+  state.particles = [...state.particles, ...particles];
+};
+
+// Receives the events of the step being simulated
+type Emit = (event: GameEvent) => void;
+
+// Colour and size of the particle burst an event sets off, if any
+const particleBurst = (event: GameEvent) => {
+  switch (event.type) {
+    case 'coinCollected':
+      return { x: event.x, y: event.y, color: 'hsl(45, 100%, 60%)', count: 8 };
+    case 'obstacleHit':
+      if (event.outcome === 'smashed') return { x: event.x, y: event.y, color: 'hsl(120, 100%, 50%)', count: 12 };
+      if (event.outcome === 'shielded') return { x: event.x, y: event.y, color: 'hsl(195, 100%, 55%)', count: 10 };
+      return { x: event.x, y: event.y, color: 'hsl(0, 100%, 50%)', count: 15 };
+    case 'powerUpStarted':
+      return { x: event.x, y: event.y, color: 'hsl(195, 100%, 55%)', count: 12 };
+    case 'powerUpEnded':
+      return { x: event.x, y: event.y, color: 'hsl(0, 0%, 80%)', count: 8 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Records an event on the state and sets off its particles. Particles are
+ * part of the simulation, so they are spawned here as the event happens and
+ * draw their random numbers in the same order every time the run is replayed.
+ */
+const emitEvent = (state: SimulationState, random: Random, event: GameEvent) => {
+  state.events = [...state.events, event];
+  const burst = particleBurst(event);
+  if (burst) createParticles(state, random, burst.x, burst.y, burst.color, burst.count);
+};
+
+const spawnObstacle = (state: SimulationState, lane: Lane, type: ObstacleType) => {
+  const { width, height } = OBSTACLE_RULES[type];
+
+  const obstacle: Obstacle = {
+    id: state.nextId++,
+    lane,
+    x: laneX(lane, width),
+    y: 50, // Obstacles spawn at top of screen
+    width,
+    height,
+    type,
+    rotation: 0,
+    animationFrame: 0
+  };
+  state.obstacles = [...state.obstacles, obstacle];
+};
+
+const spawnCoin = (state: SimulationState, random: Random, difficulty: Difficulty, lane: Lane = random.int(3) as Lane) => {
+  const type = random.weighted(difficulty.coinWeights);
+
+  const coin: Coin = {
+    id: state.nextId++,
+    lane,
+    x: laneX(lane, COIN_SIZE),
+    y: 30, // Coins spawn at top of screen
+    collected: false,
+    isAttracted: false,
+    value: type === 'normal' ? 1 : type === 'gold' ? 5 : 10,
+    type,
+    rotation: 0,
+    animationFrame: 0
+  };
+  state.gameCoins = [...state.gameCoins, coin];
+};
+
+// Picks the next pattern that can still be cleared from wherever the player
+// could be after the rows already queued, so no chunk is ever impossible
+const queueChunk = (state: SimulationState, random: Random, difficulty: Difficulty) => {
+  const rowTiming = getRowTiming(difficulty);
+  const candidates = CHUNKS.filter(chunk => chunk.minLevel <= state.level);
+
+  while (candidates.length) {
+    const [chunk] = candidates.splice(random.int(candidates.length), 1);
+    const rows = resolveChunk(chunk, random, difficulty.obstacleWeights);
+    const paths = solveRows(state.paths, rows, rowTiming, MOVE_TIMING);
+    if (paths.length) {
+      state.pendingRows = rows;
+      state.paths = paths;
+      return;
+    }
+  }
+
+  state.pendingRows = [EMPTY_ROW];
+  state.paths = solveRows(state.paths, state.pendingRows, rowTiming, MOVE_TIMING);
+};
+
+const spawnRow = (state: SimulationState, random: Random, difficulty: Difficulty) => {
+  if (!state.pendingRows.length) {
+    queueChunk(state, random, difficulty);
+  }
+
+  const [row, ...rest] = state.pendingRows;
+  state.pendingRows = rest;
+
+  row.split('').forEach((cell, index) => {
+    const lane = index as Lane;
+    const type = cellObstacle(cell);
+    if (type) {
+      spawnObstacle(state, lane, type);
+    } else if (cell === 'c') {
+      spawnCoin(state, random, difficulty, lane);
+    }
+  });
+};
+
+const spawnPowerUp = (state: SimulationState, random: Random) => {
+  const lane = random.int(3) as Lane;
+  const powerUpTypes: PowerUp['type'][] = ['shield', 'speed', 'magnet', 'health'];
+  const type = random.pick(powerUpTypes);
+
+  const powerUp: PowerUp = {
+    id: state.nextId++,
+    lane,
+    x: laneX(lane, POWER_UP_SIZE),
+    y: 30, // Power-ups spawn at top of screen
+    type,
+    collected: false,
+    rotation: 0,
+    animationFrame: 0
+  };
+  state.powerUps = [...state.powerUps, powerUp];
+};
+
+const isGrounded = (player: Player) => !player.isJumping && player.jumpHeight <= player.surfaceHeight;
+
+const canStartSlide = (player: Player) => !player.isSliding && player.slideCooldown === 0;
+
+const endSlide = (player: Player) => {
+  player.isSliding = false;
+  player.slideFrames = 0;
+  player.slideCooldown = SLIDE_COOLDOWN_FRAMES;
+};
+
+const canPerform = (player: Player, action: PlayerAction) => {
+  switch (action) {
+    case 'moveLeft':
+      return player.lane > 0;
+    case 'moveRight':
+      return player.lane < 2;
+    case 'jump':
+      return !player.isJumping && (isGrounded(player) || player.coyoteTimer > 0);
+    case 'releaseJump':
+      return true;
+    case 'slide':
+      // In the air slide also dives, which is always worth doing
+      return canStartSlide(player) || (!isGrounded(player) && !player.isFastFalling);
+  }
+};
+
+// Lane changes only retarget the player; updatePlayer moves them across
+const perform = (player: Player, action: PlayerAction, emit?: Emit) => {
+  switch (action) {
+    case 'moveLeft':
+      player.lane = (player.lane - 1) as Lane;
+      emit?.({ type: 'laneChanged', lane: player.lane });
+      break;
+    case 'moveRight':
+      player.lane = (player.lane + 1) as Lane;
+      emit?.({ type: 'laneChanged', lane: player.lane });
+      break;
+    case 'jump':
+      // Jumping out of a slide cancels it
+      if (player.isSliding) endSlide(player);
+      player.isJumping = true;
+      player.isFastFalling = false;
+      player.jumpVelocity = PHYSICS.jumpVelocity;
+      player.coyoteTimer = 0;
+      emit?.({ type: 'jumped' });
+      break;
+    case 'releaseJump':
+      player.isJumpHeld = false;
+      break;
+    case 'slide':
+      if (canStartSlide(player)) {
+        player.isSliding = true;
+        player.slideFrames = SLIDE_FRAMES;
+        emit?.({ type: 'slid' });
+      }
+      if (!isGrounded(player)) {
+        player.isFastFalling = true;
+        player.jumpVelocity = Math.min(player.jumpVelocity, -PHYSICS.fastFallVelocity);
+      }
+      break;
+  }
+};
+
+const applyAction = (player: Player, action: PlayerAction, emit?: Emit) => {
+  // Held state follows the button even while the jump itself is buffered
+  if (action === 'jump') player.isJumpHeld = true;
+
+  if (canPerform(player, action)) {
+    perform(player, action, emit);
+  } else {
+    // Only the latest early press is kept, as a newer one replaces the intent
+    player.bufferedAction = action;
+    player.bufferTimer = INPUT_BUFFER_TIME;
+  }
+};
+
+const applyBufferedAction = (player: Player, dt: number, emit: Emit) => {
+  if (!player.bufferedAction) return;
+
+  if (canPerform(player, player.bufferedAction)) {
+    perform(player, player.bufferedAction, emit);
+    player.bufferedAction = null;
+    return;
+  }
+  player.bufferTimer -= dt;
+  if (player.bufferTimer <= 0) {
+    player.bufferedAction = null;
+  }
+};
+
+const updatePlayer = (player: Player, scale: number, dt: number) => {
+  const targetX = laneX(player.lane, PLAYER_WIDTH);
+  const laneStep = (LANE_WIDTH / (LANE_CHANGE_TIME / FRAME_TIME)) * scale;
+  player.x += Math.max(-laneStep, Math.min(laneStep, targetX - player.x));
+
+  if (player.isJumping || player.jumpHeight > player.surfaceHeight) {
+    // Letting go early cuts the rise short for a lower jump
+    if (player.isJumping && !player.isJumpHeld) {
+      player.jumpVelocity = Math.min(player.jumpVelocity, PHYSICS.releaseVelocity);
+    }
+
+    const gravity = player.isFastFalling
+      ? PHYSICS.fastFallGravity
+      : player.jumpVelocity > 0 ? PHYSICS.riseGravity : PHYSICS.fallGravity;
+    // Semi-implicit Euler: velocity first, then position from the new velocity
+    player.jumpVelocity = Math.max(player.jumpVelocity - gravity * scale, -PHYSICS.maxFallSpeed);
+    player.jumpHeight += player.jumpVelocity * scale;
+
+    if (player.jumpHeight <= player.surfaceHeight) {
+      player.jumpHeight = player.surfaceHeight;
+      player.jumpVelocity = 0;
+      player.isJumping = false;
+      player.isFastFalling = false;
+    }
+  }
+
+  player.coyoteTimer = isGrounded(player) ? COYOTE_TIME : Math.max(0, player.coyoteTimer - dt);
+};
+
+const updateSlide = (player: Player) => {
+  if (player.isSliding) {
+    player.slideFrames--;
+    if (player.slideFrames <= 0) endSlide(player);
+  } else if (player.slideCooldown > 0) {
+    player.slideCooldown--;
+  }
+};
+
+// Derived from the player physics by running moves on a bare player
+const measureMoveTiming = (): MoveTiming => {
+  const clearance = Math.max(...Object.values(OBSTACLE_RULES).map(rule => rule.clearance ?? 0));
+  const player = createPlayer();
+  applyAction(player, 'jump');
+
+  let steps = 0;
+  let riseSteps = 0;
+  let clearSteps = 0;
+  do {
+    updatePlayer(player, 1, FRAME_TIME);
+    steps++;
+    if (player.jumpHeight >= clearance) {
+      if (!clearSteps) riseSteps = steps;
+      clearSteps++;
+    }
+  } while (player.jumpHeight > 0);
+
+  const mover = createPlayer();
+  applyAction(mover, 'moveRight');
+  let laneSteps = 0;
+  do {
+    updatePlayer(mover, 1, FRAME_TIME);
+    laneSteps++;
+  } while (mover.x !== laneX(mover.lane, PLAYER_WIDTH));
+
+  const slider = createPlayer();
+  applyAction(slider, 'slide');
+  let cycleSteps = 0;
+  let lowSteps = 0;
+  do {
+    updateSlide(slider);
+    cycleSteps++;
+    if (slider.isSliding) lowSteps++;
+  } while (!canStartSlide(slider));
+
+  return {
+    laneChangeSteps: laneSteps,
+    jumpRiseSteps: riseSteps,
+    jumpClearSteps: clearSteps,
+    jumpCooldownSteps: steps,
+    slideSteps: lowSteps,
+    slideCooldownSteps: cycleSteps
+  };
+};
+
+export const MOVE_TIMING = measureMoveTiming();
+
+// Distance the track moves while an obstacle of each type overlaps the player
+const measureObstacleOverlap = () => {
+  const footprint = getPlayerFootprint(createPlayer());
+  const overlap = {} as Record<ObstacleType, number>;
+  for (const [type, { width, height }] of Object.entries(OBSTACLE_RULES) as [ObstacleType, ObstacleRule][]) {
+    overlap[type] = 0;
+    for (let y = -height; y < GAME_HEIGHT; y++) {
+      if (intersects({ x: footprint.x, y, width, height }, footprint)) overlap[type]++;
+    }
+  }
+  return overlap;
+};
+
+const OBSTACLE_OVERLAP = measureObstacleOverlap();
+
+// The overlaps in steps at this difficulty's speed
+export const getRowTiming = (difficulty: Difficulty): RowTiming => ({
+  gapSteps: difficulty.obstacleSpacing / difficulty.speed,
+  overlapSteps: Object.fromEntries(
+    Object.entries(OBSTACLE_OVERLAP).map(([type, distance]) => [type, distance / difficulty.speed])
+  ) as Record<ObstacleType, number>
+});
+
+const endPowerUp = (player: Player, emit: Emit) => {
+  const powerUp = player.powerUpType;
+  player.powerUpActive = false;
+  player.powerUpType = null;
+  if (powerUp) emit({ type: 'powerUpEnded', powerUp, x: player.x + PLAYER_WIDTH / 2, y: player.y + PLAYER_HEIGHT / 2 });
+};
+
+const updatePowerUp = (state: SimulationState, emit: Emit, dt: number) => {
+  const player = state.player;
+  if (!player.powerUpActive || player.powerUpTimer <= 0) return;
+
+  player.powerUpTimer -= dt;
+  if (player.powerUpTimer <= 0) endPowerUp(player, emit);
+};
+
+const updateInvulnerability = (player: Player, dt: number) => {
+  if (!player.isInvulnerable) return;
+
+  player.invulnerableTimer -= dt;
+  if (player.invulnerableTimer <= 0) {
+    player.isInvulnerable = false;
+    player.invulnerableTimer = 0;
+  }
+};
+
+const attractCoins = (state: SimulationState, scale: number) => {
+  const player = state.player;
+  const magnetActive = hasPowerUp(player, 'magnet');
+  const targetX = player.x + PLAYER_WIDTH / 2;
+  const targetY = player.y + PLAYER_HEIGHT / 2;
+  const pull = Math.min(1, MAGNET_PULL * scale);
+
+  state.gameCoins = state.gameCoins.map(coin => {
+    const inRange = magnetActive &&
+      !coin.collected &&
+      Math.abs(coin.lane - player.lane) <= 1 &&
+      coin.y + COIN_SIZE > player.y - MAGNET_RANGE &&
+      coin.y < player.y + PLAYER_HEIGHT;
+
+    if (!inRange) {
+      return coin.isAttracted ? { ...coin, isAttracted: false } : coin;
+    }
+
+    const centerX = coin.x + COIN_SIZE / 2;
+    const centerY = coin.y + COIN_SIZE / 2;
+    return {
+      ...coin,
+      x: coin.x + (targetX - centerX) * pull,
+      y: coin.y + (targetY - centerY) * pull,
+      isAttracted: true
+    };
+  });
+};
+
+const moveEntities = (state: SimulationState, travel: number, scale: number) => {
+
+  state.obstacles = state.obstacles
+    .map(obstacle => ({
+      ...obstacle,
+      y: obstacle.y + travel,
+      rotation: obstacle.rotation + 0.02 * scale,
+      animationFrame: obstacle.animationFrame + 1
+    }))
+    .filter(obstacle => obstacle.y < GAME_HEIGHT + 100); // Remove obstacles that go below screen
+
+  state.gameCoins = state.gameCoins
+    .map(coin => ({
+      ...coin,
+      y: coin.y + travel,
+      rotation: coin.rotation + 0.05 * scale,
+      animationFrame: coin.animationFrame + 1
+    }))
+    .filter(coin => coin.y < GAME_HEIGHT + 50);
+
+  state.powerUps = state.powerUps
+    .map(powerUp => ({
+      ...powerUp,
+      y: powerUp.y + travel,
+      rotation: powerUp.rotation + 0.03 * scale,
+      animationFrame: powerUp.animationFrame + 1
+    }))
+    .filter(powerUp => powerUp.y < GAME_HEIGHT + 50);
+
+  state.particles = state.particles
+    .map(particle => ({
+      ...particle,
+      x: particle.x + particle.vx * scale,
+      y: particle.y + particle.vy * scale,
+      life: particle.life - 0.02 * scale,
+      vy: particle.vy + 0.1 * scale // gravity
+    }))
+    .filter(particle => particle.life > 0);
+};
+
+const checkCollisions = (state: SimulationState, emit: Emit) => {
+  const player = state.player;
+  const playerRect = getPlayerRect(player);
+  const footprint = getPlayerFootprint(player);
+
+  let surfaceHeight = 0;
+  let hit: Obstacle | undefined;
+  for (const obstacle of state.obstacles) {
+    if (!intersects(obstacle, footprint)) continue;
+
+    const rule = OBSTACLE_RULES[obstacle.type];
+    if (canRide(player, rule)) {
+      surfaceHeight = Math.max(surfaceHeight, rule.rideHeight);
+    } else if (!hit && !clearsObstacle(player, rule)) {
+      hit = obstacle;
+    }
+  }
+  // Drop back to the track once the roof being ridden has passed
+  player.surfaceHeight = surfaceHeight;
+
+  if (!player.isInvulnerable) {
+    if (hit) {
+      if (hasPowerUp(player, 'speed')) {
+        // Speed smashes straight through obstacles
+        state.obstacles = state.obstacles.filter(obstacle => obstacle !== hit);
+        emit({
+          type: 'obstacleHit',
+          obstacle: hit.type,
+          outcome: 'smashed',
+          damage: 0,
+          x: hit.x + hit.width / 2,
+          y: hit.y + hit.height / 2
+        });
+        return;
+      }
+
+      if (hasPowerUp(player, 'shield')) {
+        // Shield protects from damage
+        emit({ type: 'obstacleHit', obstacle: hit.type, outcome: 'shielded', damage: 0, x: player.x + PLAYER_WIDTH / 2, y: player.y });
+        return;
+      }
+
+      const damage = Math.min(OBSTACLE_DAMAGE, player.health);
+      player.health -= damage;
+      player.isInvulnerable = true;
+      player.invulnerableTimer = OBSTACLE_RULES[hit.type].invulnerability;
+      emit({ type: 'obstacleHit', obstacle: hit.type, outcome: 'damaged', damage, x: player.x + PLAYER_WIDTH / 2, y: player.y });
+
+      if (player.health <= 0) {
+        state.isGameOver = true;
+        emit({ type: 'runEnded', distance: state.score, coins: state.coins, level: state.level, frame: state.frame });
+      }
+      return;
+    }
+  }
+
+  state.gameCoins = state.gameCoins.map(coin => {
+    if (!coin.collected && intersects({ x: coin.x, y: coin.y, width: COIN_SIZE, height: COIN_SIZE }, playerRect)) {
+      state.coins += coin.value;
+      emit({ type: 'coinCollected', coin: coin.type, value: coin.value, x: coin.x + COIN_SIZE / 2, y: coin.y + COIN_SIZE / 2 });
+      return { ...coin, collected: true };
+    }
+    return coin;
+  });
+
+  state.powerUps = state.powerUps.map(powerUp => {
+    if (!powerUp.collected && intersects({ x: powerUp.x, y: powerUp.y, width: POWER_UP_SIZE, height: POWER_UP_SIZE }, playerRect)) {
+      // A different power-up replaces the active one; the same kind just restarts its timer
+      if (player.powerUpActive && player.powerUpType !== powerUp.type) endPowerUp(player, emit);
+      player.powerUpActive = true;
+      player.powerUpType = powerUp.type;
+      player.powerUpTimer = POWER_UP_DURATION;
+      if (powerUp.type === 'health') {
+        player.health = Math.min(player.maxHealth, player.health + HEALTH_RESTORE);
+      }
+      emit({
+        type: 'powerUpStarted',
+        powerUp: powerUp.type,
+        x: powerUp.x + POWER_UP_SIZE / 2,
+        y: powerUp.y + POWER_UP_SIZE / 2
+      });
+      return { ...powerUp, collected: true };
+    }
+    return powerUp;
+  });
+};
+
+/**
+ * Advances the run by dt milliseconds. The previous state is left untouched so
+ * callers can keep it around for interpolation or comparison. The new state's
+ * `events` lists what happened during the step; a finished run has none.
+ */
+export const step = (state: SimulationState, input: SimulationInput, dt: number = FRAME_TIME): SimulationState => {
+  if (state.isGameOver) return state.events.length === 0 ? state : { ...state, events: [] };
+
+  const next: SimulationState = { ...state, player: { ...state.player }, events: [] };
+  const scale = dt / FRAME_TIME;
+  const random = createRandom(state.randomState);
+  const emit: Emit = (event) => emitEvent(next, random, event);
+
+  next.frame++;
+  applyBufferedAction(next.player, dt, emit);
+  input.actions.forEach(action => applyAction(next.player, action, emit));
+  const difficulty = getDifficulty(getLevelProgress(next));
+  const travel = getScrollSpeed(next, difficulty) * scale;
+  updatePlayer(next.player, scale, dt);
+  updateSlide(next.player);
+  moveEntities(next, travel, scale);
+  attractCoins(next, scale);
+  updatePowerUp(next, emit, dt);
+  updateInvulnerability(next.player, dt);
+
+  next.distance += travel;
+  next.scoreDistance += travel * (hasPowerUp(next.player, 'speed') ? SPEED_SCORE_MULTIPLIER : 1);
+
+  const spawnAt = { ...next.spawnAt };
+  if (next.distance >= spawnAt.obstacle) {
+    spawnRow(next, random, difficulty);
+    spawnAt.obstacle += difficulty.obstacleSpacing;
+  }
+  if (next.distance >= spawnAt.coin) {
+    spawnCoin(next, random, difficulty);
+    spawnAt.coin += difficulty.coinSpacing;
+  }
+  if (next.distance >= spawnAt.powerUp) {
+    spawnPowerUp(next, random);
+    spawnAt.powerUp += difficulty.powerUpSpacing;
+  }
+  next.spawnAt = spawnAt;
+
+  next.score = Math.floor(next.scoreDistance / 10);
+  next.level = Math.floor(next.score / SCORE_PER_LEVEL) + 1;
+  if (next.level > state.level) emit({ type: 'levelUp', level: next.level });
+
+  checkCollisions(next, emit);
+  next.randomState = random.state;
+
+  return next;
+};
@@ -0,0 +1,137 @@
+export type Lane = 0 | 1 | 2; // left, center, right
+
+export type ObstacleType = 'barrier' | 'train' | 'tunnel' | 'spike' | 'laser';
+export type CoinType = 'normal' | 'gold' | 'diamond';
+export type PowerUpType = 'shield' | 'speed' | 'magnet' | 'health';
+
+export interface Player {
+  lane: Lane;
+  x: number;
+  y: number;
+  isJumping: boolean; // in the air from a jump, until landing
+  isJumpHeld: boolean;
+  isFastFalling: boolean; // diving after slide was pressed mid-air
+  isSliding: boolean;
+  slideFrames: number; // steps left in the current slide
+  slideCooldown: number; // steps until another slide can start
+  jumpHeight: number;
+  jumpVelocity: number; // upwards, in pixels per step
+  surfaceHeight: number; // height of what the player stands on, e.g. a train roof
+  coyoteTimer: number; // ms left in which a jump is allowed after leaving a surface
+  bufferedAction: PlayerAction | null; // pressed too early, performed once possible
+  bufferTimer: number;
+  health: number;
+  maxHealth: number;
+  isInvulnerable: boolean;
+  invulnerableTimer: number; // ms of simulation time left
+  powerUpActive: boolean;
+  powerUpType: PowerUpType | null;
+  powerUpTimer: number;
+}
+
+export interface Obstacle {
+  id: number;
+  lane: Lane;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: ObstacleType;
+  rotation: number;
+  animationFrame: number;
+}
+
+export interface Coin {
+  id: number;
+  lane: Lane;
+  x: number;
+  y: number;
+  collected: boolean;
+  isAttracted: boolean; // being pulled in by the magnet
+  value: number;
+  type: CoinType;
+  rotation: number;
+  animationFrame: number;
+}
+
+export interface PowerUp {
+  id: number;
+  lane: Lane;
+  x: number;
+  y: number;
+  type: PowerUpType;
+  collected: boolean;
+  rotation: number;
+  animationFrame: number;
+}
+
+export interface Particle {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+  color: string;
+  size: number;
+}
+
+// One way through the obstacle rows, as tracked by the chunk solver. Steps
+// count from when the last row finished passing the player.
+export interface PathState {
+  lane: Lane;
+  clearFor: number; // steps the current jump keeps clearing obstacles
+  readyIn: number; // steps until jump can be pressed again; negative if it already could be
+  slideFor: number; // steps the current slide keeps the player low
+  slideReadyIn: number; // steps until the player can slide again
+}
+
+// What hitting an obstacle did: took health, or was absorbed by a shield or smashed through at speed
+export type HitOutcome = 'damaged' | 'shielded' | 'smashed';
+
+/**
+ * Something that happened during a step, emitted by the simulation in the
+ * order it happened. Positions are on the simulation board, where it happened.
+ */
+export type GameEvent =
+  | { type: 'laneChanged'; lane: Lane }
+  | { type: 'jumped' }
+  | { type: 'slid' }
+  | { type: 'coinCollected'; coin: CoinType; value: number; x: number; y: number }
+  | { type: 'obstacleHit'; obstacle: ObstacleType; outcome: HitOutcome; damage: number; x: number; y: number }
+  | { type: 'powerUpStarted'; powerUp: PowerUpType; x: number; y: number }
+  | { type: 'powerUpEnded'; powerUp: PowerUpType; x: number; y: number }
+  | { type: 'levelUp'; level: number }
+  | { type: 'runEnded'; distance: number; coins: number; level: number; frame: number };
+
+export type GameEventType = GameEvent['type'];
+
+export type PlayerAction = 'moveLeft' | 'moveRight' | 'jump' | 'releaseJump' | 'slide';
+
+// Everything the player did since the previous step, in the order it happened
+export interface SimulationInput {
+  actions: PlayerAction[];
+}
+
+export interface SimulationState {
+  seed: number;
+  randomState: number; // advanced by every random decision, so a seed replays exactly
+  frame: number;
+  distance: number;
+  scoreDistance: number; // distance scaled by score multipliers
+  score: number;
+  coins: number;
+  level: number;
+  isGameOver: boolean;
+  spawnAt: { obstacle: number; coin: number; powerUp: number }; // distance of the next spawn
+  pendingRows: string[]; // rows of the current obstacle chunk still to spawn
+  paths: PathState[]; // where the player could be once the queued rows have passed
+  player: Player;
+  obstacles: Obstacle[];
+  gameCoins: Coin[];
+  powerUps: PowerUp[];
+  particles: Particle[];
+  events: GameEvent[]; // emitted by the step that produced this state
+  nextId: number;
+}